@@ -0,0 +1,273 @@
+/**
+ * Run the enrichment graph over many topics that share one extraction schema.
+ *
+ * Results are appended to a JSONL file, one record per topic, as soon as each
+ * topic finishes. Re-running a batch against the same output file skips the
+ * topics that have already completed.
+ */
+import { existsSync } from "fs";
+import { appendFile, readFile } from "fs/promises";
+import { extname } from "path";
+import { RunnableConfig } from "@langchain/core/runnables";
+
+import { ensureConfiguration } from "./configuration.js";
+import { graph } from "./graph.js";
+import { ExtractionSchema, normalizeSchema } from "./schema.js";
+import { AnyRecord, TerminationReason } from "./state.js";
+
+/**
+ * The outcome of enriching a single topic.
+ */
+export interface BatchRecord {
+  topic: string;
+  /**
+   * - success: the graph finished with info.
+   * - incomplete: the graph finished without any info.
+   * - error: the graph threw on every attempt.
+   */
+  status: "success" | "incomplete" | "error";
+  info?: AnyRecord;
+  /**
+   * The number of research loops the graph went through.
+   */
+  loopStep?: number;
+  /**
+   * Why the research ended.
+   */
+  terminationReason?: TerminationReason;
+  /**
+   * The error messages of each failed attempt.
+   */
+  errors: string[];
+  attempts: number;
+}
+
+/**
+ * The subset of the compiled graph used by the batch runner.
+ */
+export interface BatchGraph {
+  invoke(input: AnyRecord, config?: RunnableConfig): Promise<AnyRecord>;
+}
+
+export interface BatchOptions {
+  /**
+   * The topics to research, or a path to a .jsonl or .csv file listing them.
+   */
+  topics: string[] | string;
+  /**
+   * The schema shared by every topic. A JSON Schema or a Zod schema.
+   */
+  extractionSchema: ExtractionSchema;
+  /**
+   * Path of the JSONL file results are appended to.
+   */
+  outputPath: string;
+  /**
+   * The maximum number of topics researched at the same time. Defaults to 4.
+   */
+  concurrency?: number;
+  /**
+   * The number of times a topic is retried after the graph throws. Defaults to 1.
+   */
+  maxRetries?: number;
+  /**
+   * Skip topics which already have a completed record in the output file. Defaults to true.
+   */
+  resume?: boolean;
+  /**
+   * Configuration passed to each graph invocation.
+   */
+  config?: RunnableConfig;
+  /**
+   * The graph to run. Defaults to the ResearchTopic graph.
+   */
+  graph?: BatchGraph;
+  /**
+   * Called after each topic finishes.
+   */
+  onRecord?: (record: BatchRecord) => void;
+}
+
+/**
+ * Enrich every topic with the shared extraction schema.
+ *
+ * @param options - The batch options.
+ * @returns The records for the topics processed in this run. Skipped topics are not included.
+ * @throws Error if review mode is set, since runs stopped for review are never resumed.
+ */
+export async function runBatch(options: BatchOptions): Promise<BatchRecord[]> {
+  const {
+    outputPath,
+    concurrency = 4,
+    maxRetries = 1,
+    resume = true,
+    config,
+    onRecord,
+  } = options;
+  // Runs stopped for review are never resumed, so they would not finish.
+  if (ensureConfiguration(config).reviewMode) {
+    throw new Error(`Batch runs do not support reviewMode.`);
+  }
+  const runnable = options.graph ?? graph;
+  // Fail before any topic is researched if the schema cannot be used.
+  const extractionSchema = normalizeSchema(options.extractionSchema);
+  const topics =
+    typeof options.topics === "string"
+      ? await loadTopics(options.topics)
+      : options.topics;
+
+  const done = resume ? await loadCompletedTopics(outputPath) : new Set();
+  const pending = [...new Set(topics)].filter((topic) => !done.has(topic));
+
+  const records: BatchRecord[] = [];
+  // Serialize writes so that records are never interleaved.
+  let writes = Promise.resolve();
+  let next = 0;
+  const worker = async () => {
+    while (next < pending.length) {
+      const topic = pending[next];
+      next += 1;
+      const record = await enrichTopic(
+        runnable,
+        topic,
+        extractionSchema,
+        maxRetries,
+        config,
+      );
+      records.push(record);
+      writes = writes.then(() =>
+        appendFile(outputPath, `${JSON.stringify(record)}\n`),
+      );
+      await writes;
+      onRecord?.(record);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.max(1, concurrency) }, () => worker()),
+  );
+  return records;
+}
+
+async function enrichTopic(
+  runnable: BatchGraph,
+  topic: string,
+  extractionSchema: AnyRecord,
+  maxRetries: number,
+  config?: RunnableConfig,
+): Promise<BatchRecord> {
+  const errors: string[] = [];
+  for (let attempt = 1; attempt <= maxRetries + 1; attempt += 1) {
+    try {
+      const result = await runnable.invoke({ topic, extractionSchema }, config);
+      return {
+        topic,
+        status: result.info ? "success" : "incomplete",
+        info: result.info,
+        loopStep: result.loopStep,
+        terminationReason: result.terminationReason,
+        errors,
+        attempts: attempt,
+      };
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (e: any) {
+      errors.push(e?.message ?? String(e));
+    }
+  }
+  return { topic, status: "error", errors, attempts: maxRetries + 1 };
+}
+
+async function loadCompletedTopics(outputPath: string): Promise<Set<string>> {
+  const done = new Set<string>();
+  if (!existsSync(outputPath)) {
+    return done;
+  }
+  const content = await readFile(outputPath, "utf8");
+  for (const line of content.split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      const record = JSON.parse(line) as BatchRecord;
+      if (record.status !== "error") {
+        done.add(record.topic);
+      }
+    } catch {
+      // Ignore partially written lines from an interrupted run.
+    }
+  }
+  return done;
+}
+
+/**
+ * Load the topics to research from a file.
+ *
+ * - .jsonl: one topic per line, either as a JSON string or an object with a `topic` field.
+ * - .csv: a header row with a `topic` column (or a single column), then one topic per row.
+ *
+ * @param path - The path of the file.
+ * @returns The topics listed in the file.
+ */
+export async function loadTopics(path: string): Promise<string[]> {
+  const content = await readFile(path, "utf8");
+  const extension = extname(path).toLowerCase();
+  if (extension === ".jsonl") {
+    return content
+      .split("\n")
+      .filter((line) => line.trim())
+      .map((line) => {
+        const row = JSON.parse(line);
+        return typeof row === "string" ? row : row.topic;
+      })
+      .filter((topic): topic is string => typeof topic === "string");
+  } else if (extension === ".csv") {
+    const [header, ...rows] = parseCsv(content);
+    const column = header?.length === 1 ? 0 : (header?.indexOf("topic") ?? -1);
+    if (column === -1) {
+      throw new Error(`Expected a "topic" column in ${path}.`);
+    }
+    return rows.map((row) => row[column]?.trim()).filter(Boolean);
+  }
+  throw new Error(
+    `Unsupported topics file "${path}". Expected a .jsonl or .csv file.`,
+  );
+}
+
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < content.length; i += 1) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") {
+        i += 1;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((f) => f.trim()));
+}
@@ -0,0 +1,145 @@
+/**
+ * A persistent cache for search results and scraped website notes.
+ *
+ * Re-running an enrichment, or enriching overlapping topics, would otherwise
+ * repeat the same searches and summarize the same pages again. Entries are
+ * stored as JSON files in the configured cache directory.
+ */
+import { createHash } from "crypto";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { join } from "path";
+
+import { ConfigurationAnnotation } from "./configuration.js";
+
+/**
+ * A key-value store with per-entry expiry.
+ */
+export interface CacheBackend {
+  get(key: string): Promise<string | undefined>;
+  set(key: string, value: string, ttlSeconds: number): Promise<void>;
+}
+
+interface CacheEntry {
+  key: string;
+  value: string;
+  expiresAt: number;
+}
+
+/**
+ * Store each cache entry as a JSON file named after the hash of its key.
+ */
+export class FileCache implements CacheBackend {
+  constructor(private readonly directory: string) {}
+
+  async get(key: string): Promise<string | undefined> {
+    try {
+      const content = await readFile(this.pathFor(key), "utf8");
+      const entry = JSON.parse(content) as CacheEntry;
+      // Guard against hash collisions and expired entries.
+      if (entry.key !== key || entry.expiresAt < Date.now()) {
+        return undefined;
+      }
+      return entry.value;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const entry: CacheEntry = {
+      key,
+      value,
+      expiresAt: Date.now() + ttlSeconds * 1000,
+    };
+    // Write to a temporary file first so concurrent readers never see a partial entry.
+    const path = this.pathFor(key);
+    const temporaryPath = `${path}.${process.pid}.${Date.now()}.tmp`;
+    await writeFile(temporaryPath, JSON.stringify(entry));
+    await rename(temporaryPath, path);
+  }
+
+  private pathFor(key: string): string {
+    return join(this.directory, `${hash(key)}.json`);
+  }
+}
+
+/**
+ * The result of a cached computation.
+ */
+export interface CachedResult {
+  value: string;
+  cacheHit: boolean;
+}
+
+/**
+ * Return the cached value for the key, or compute and store it.
+ *
+ * @param configuration - The agent configuration. Caching is disabled if no cacheDir is set.
+ * @param namespace - Which tool the entry belongs to.
+ * @param key - Identifies the entry within the namespace.
+ * @param compute - Computes the value on a cache miss.
+ * @returns The value and whether it was served from the cache. If the value
+ *   cannot be written to the cache, a warning is logged and it is returned anyway.
+ */
+export async function withCache(
+  configuration: typeof ConfigurationAnnotation.State,
+  namespace: "search" | "scrape",
+  key: string,
+  compute: () => Promise<string>,
+): Promise<CachedResult> {
+  const ttlSeconds =
+    namespace === "search"
+      ? configuration.searchCacheTtlSeconds
+      : configuration.scrapeCacheTtlSeconds;
+  if (!configuration.cacheDir || ttlSeconds <= 0) {
+    return { value: await compute(), cacheHit: false };
+  }
+  const cache = new FileCache(join(configuration.cacheDir, namespace));
+  if (!configuration.bypassCache) {
+    const cached = await cache.get(key);
+    if (cached !== undefined) {
+      return { value: cached, cacheHit: true };
+    }
+  }
+  const value = await compute();
+  try {
+    await cache.set(key, value, ttlSeconds);
+  } catch (e) {
+    // The value is still good, it just won't be served from the cache next time.
+    console.warn(
+      `Could not write to the cache in ${configuration.cacheDir}:`,
+      e,
+    );
+  }
+  return { value, cacheHit: false };
+}
+
+/**
+ * Hash a value so it can be used in a cache key. Object keys are sorted, so
+ * equivalent schemas produce the same hash.
+ *
+ * @param value - The value to hash.
+ * @returns A hex-encoded SHA-256 hash.
+ */
+export function hashValue(value: unknown): string {
+  return hash(stableStringify(value));
+}
+
+function hash(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
@@ -5,6 +5,8 @@
 import { RunnableConfig } from "@langchain/core/runnables";
 import { Annotation } from "@langchain/langgraph";
 import { MAIN_PROMPT } from "./prompts.js";
+import { type ModelPricing } from "./usage.js";
+import { type ChatModelParams } from "./utils.js";
 
 /**
  * The complete configuration for the agent.
@@ -17,6 +19,64 @@ export const ConfigurationAnnotation = Annotation.Root({
    */
   model: Annotation<string>,
 
+  /**
+   * Parameters (e.g. temperature, maxTokens) for the default model.
+   */
+  modelParams: Annotation<ChatModelParams>,
+
+  /**
+   * The model that plans the research and submits the info. Defaults to `model`.
+   */
+  agentModel: Annotation<string>,
+
+  /**
+   * Parameters for the agent model. Defaults to `modelParams`.
+   */
+  agentModelParams: Annotation<ChatModelParams>,
+
+  /**
+   * The model that critiques the submitted info. Defaults to `model`.
+   */
+  reflectionModel: Annotation<string>,
+
+  /**
+   * Parameters for the reflection model. Defaults to `modelParams`.
+   */
+  reflectionModelParams: Annotation<ChatModelParams>,
+
+  /**
+   * The model that summarizes scraped pages. A small, fast model usually works well here.
+   * Defaults to `model`.
+   */
+  scrapeModel: Annotation<string>,
+
+  /**
+   * Parameters for the scrape model. Defaults to `modelParams`.
+   */
+  scrapeModelParams: Annotation<ChatModelParams>,
+
+  /**
+   * Models to fall back to, in order, when a model keeps failing with transient
+   * errors (rate limits, overloads, dropped connections) after its retries.
+   * Each is called with the parameters of the model it replaces.
+   */
+  fallbackModels: Annotation<string[]>,
+
+  /**
+   * The number of times a model call, search or page fetch is retried after a transient error.
+   */
+  maxRetries: Annotation<number>,
+
+  /**
+   * The delay before the first retry in milliseconds. It doubles with every retry, with random jitter.
+   */
+  retryInitialDelayMs: Annotation<number>,
+
+  /**
+   * The maximum delay between two retries in milliseconds.
+   */
+  retryMaxDelayMs: Annotation<number>,
+
   /**
    * The main prompt template to use for the agent's interactions.
    *
@@ -29,6 +89,182 @@ export const ConfigurationAnnotation = Annotation.Root({
    */
   maxSearchResults: Annotation<number>,
 
+  /**
+   * The search backend used by the Search tool.
+   *
+   * - tavily: web search with Tavily (requires TAVILY_API_KEY).
+   * - http-json: a generic JSON search endpoint, set with searchEndpoint.
+   * - fixture: canned results from a JSON file, set with searchFixturePath. Useful for offline tests.
+   */
+  searchProvider: Annotation<"tavily" | "http-json" | "fixture">,
+
+  /**
+   * The URL of the search endpoint used by the "http-json" search provider.
+   */
+  searchEndpoint: Annotation<string | undefined>,
+
+  /**
+   * The path of the JSON file used by the "fixture" search provider.
+   */
+  searchFixturePath: Annotation<string | undefined>,
+
+  /**
+   * A directory of local documents (markdown, text, HTML, JSON and PDF files) the agent
+   * can search with `SearchDocuments` and read with `readDocument`.
+   * These tools are only offered if this is set.
+   */
+  corpusDir: Annotation<string | undefined>,
+
+  /**
+   * The maximum number of characters of page content summarized in a single model call.
+   * Longer pages are split into chunks which are summarized separately and then merged.
+   */
+  scrapeChunkSize: Annotation<number>,
+
+  /**
+   * The maximum number of chunks summarized per scraped page. Content beyond this is dropped.
+   */
+  maxScrapeChunks: Annotation<number>,
+
+  /**
+   * The maximum time in milliseconds to wait for a page to be fetched, including redirects.
+   */
+  fetchTimeoutMs: Annotation<number>,
+
+  /**
+   * The User-Agent header sent when fetching pages and robots.txt files.
+   */
+  userAgent: Annotation<string>,
+
+  /**
+   * Whether to check each site's robots.txt before fetching pages from it.
+   */
+  respectRobotsTxt: Annotation<boolean>,
+
+  /**
+   * The maximum number of requests in flight to the same domain.
+   */
+  maxConcurrentRequestsPerDomain: Annotation<number>,
+
+  /**
+   * The minimum time in milliseconds between the start of two requests to the same domain.
+   * A longer Crawl-delay in the site's robots.txt takes precedence.
+   */
+  minRequestIntervalMs: Annotation<number>,
+
+  /**
+   * The maximum size in bytes of a fetched page.
+   */
+  maxResponseBytes: Annotation<number>,
+
+  /**
+   * The maximum number of redirects followed when fetching a page.
+   */
+  maxRedirects: Annotation<number>,
+
+  /**
+   * If set, only these domains (and their subdomains) are used: search results
+   * from other domains are dropped and scraping them is refused.
+   */
+  allowedDomains: Annotation<string[]>,
+
+  /**
+   * Domains (and their subdomains) that are never used, e.g. content farms:
+   * their search results are dropped and scraping them is refused.
+   */
+  deniedDomains: Annotation<string[]>,
+
+  /**
+   * Domains that are trusted sources. Their search results are ranked first.
+   */
+  preferredDomains: Annotation<string[]>,
+
+  /**
+   * Trust scores from 0 (unreliable) to 1 (authoritative) per domain, overriding the
+   * defaults of 0.9 for preferred domains and 0.5 for others. Search results are
+   * ranked by trust, and the reflection step is told the trust of each source.
+   */
+  domainTrust: Annotation<Record<string, number>>,
+
+  /**
+   * The directory search results and scraped website notes are cached in.
+   * Caching is disabled if this is not set.
+   */
+  cacheDir: Annotation<string | undefined>,
+
+  /**
+   * How long cached search results stay valid, in seconds. Set to 0 to disable caching searches.
+   */
+  searchCacheTtlSeconds: Annotation<number>,
+
+  /**
+   * How long cached website notes stay valid, in seconds. Set to 0 to disable caching scrapes.
+   */
+  scrapeCacheTtlSeconds: Annotation<number>,
+
+  /**
+   * Ignore cached entries and always search and scrape again. Fresh results are still written to the cache.
+   */
+  bypassCache: Annotation<boolean>,
+
+  /**
+   * The maximum number of tokens (input and output, across all model calls) a run may use.
+   * Once reached, the agent must submit the info it has gathered so far. Unlimited if not set.
+   */
+  tokenBudget: Annotation<number | undefined>,
+
+  /**
+   * The maximum estimated cost in USD a run may incur.
+   * Once reached, the agent must submit the info it has gathered so far. Unlimited if not set.
+   */
+  costBudgetUsd: Annotation<number | undefined>,
+
+  /**
+   * Model prices in USD per million tokens, keyed by fully specified model name.
+   * Used to estimate costs. Overrides the built-in prices.
+   */
+  modelPricing: Annotation<Record<string, ModelPricing>>,
+
+  /**
+   * The minimum confidence (0 to 1) the reflection step must have in every field
+   * for the info to be accepted. Fields below it are researched further.
+   */
+  minFieldConfidence: Annotation<number>,
+
+  /**
+   * Whether a person must review the info once the reflection step accepts it.
+   * The graph is interrupted before it ends, and resumed with the review.
+   */
+  reviewMode: Annotation<boolean>,
+
+  /**
+   * Enable fan-out mode for a top-level array field of the extraction schema,
+   * whose items are objects (e.g. "companies"). The agent first discovers the
+   * entities for the field, then researches each one in a parallel run. Any
+   * remaining token or cost budget is split evenly between the runs.
+   */
+  fanOutField: Annotation<string | undefined>,
+
+  /**
+   * The maximum number of entities to research in fan-out mode.
+   */
+  maxEntities: Annotation<number>,
+
+  /**
+   * How the message history is sent to the models.
+   *
+   * - full: every message is sent on every loop.
+   * - compact: only the last keepToolExchanges tool exchanges are sent verbatim.
+   *   Older search and scrape results are summarized into research notes by the
+   *   scrape model. Useful for deep research that would outgrow the context window.
+   */
+  historyStrategy: Annotation<"full" | "compact">,
+
+  /**
+   * The number of recent tool exchanges sent verbatim with the "compact" history strategy.
+   */
+  keepToolExchanges: Annotation<number>,
+
   /**
    * The maximum number of times the Info tool can be called during a single interaction.
    */
@@ -53,10 +289,58 @@ export function ensureConfiguration(
     typeof ConfigurationAnnotation.State
   >;
 
+  const model = configurable.model ?? "anthropic/claude-3-5-sonnet-20240620";
+  const modelParams = configurable.modelParams ?? {};
+
   return {
-    model: configurable.model ?? "anthropic/claude-3-5-sonnet-20240620",
+    model,
+    modelParams,
+    agentModel: configurable.agentModel ?? model,
+    agentModelParams: configurable.agentModelParams ?? modelParams,
+    reflectionModel: configurable.reflectionModel ?? model,
+    reflectionModelParams: configurable.reflectionModelParams ?? modelParams,
+    scrapeModel: configurable.scrapeModel ?? model,
+    scrapeModelParams: configurable.scrapeModelParams ?? modelParams,
+    fallbackModels: configurable.fallbackModels ?? [],
+    maxRetries: configurable.maxRetries ?? 2,
+    retryInitialDelayMs: configurable.retryInitialDelayMs ?? 1_000,
+    retryMaxDelayMs: configurable.retryMaxDelayMs ?? 30_000,
     prompt: configurable.prompt ?? MAIN_PROMPT,
     maxSearchResults: configurable.maxSearchResults ?? 5,
+    searchProvider: configurable.searchProvider ?? "tavily",
+    searchEndpoint: configurable.searchEndpoint,
+    searchFixturePath: configurable.searchFixturePath,
+    corpusDir: configurable.corpusDir,
+    scrapeChunkSize: configurable.scrapeChunkSize ?? 20_000,
+    maxScrapeChunks: configurable.maxScrapeChunks ?? 4,
+    fetchTimeoutMs: configurable.fetchTimeoutMs ?? 15_000,
+    userAgent:
+      configurable.userAgent ??
+      "DataEnrichmentAgent/0.0.1 (+https://github.com/langchain-ai/data-enrichment-js)",
+    respectRobotsTxt: configurable.respectRobotsTxt ?? true,
+    maxConcurrentRequestsPerDomain:
+      configurable.maxConcurrentRequestsPerDomain ?? 2,
+    minRequestIntervalMs: configurable.minRequestIntervalMs ?? 1_000,
+    maxResponseBytes: configurable.maxResponseBytes ?? 5_000_000,
+    maxRedirects: configurable.maxRedirects ?? 5,
+    allowedDomains: configurable.allowedDomains ?? [],
+    deniedDomains: configurable.deniedDomains ?? [],
+    preferredDomains: configurable.preferredDomains ?? [],
+    domainTrust: configurable.domainTrust ?? {},
+    cacheDir: configurable.cacheDir,
+    searchCacheTtlSeconds: configurable.searchCacheTtlSeconds ?? 24 * 60 * 60,
+    scrapeCacheTtlSeconds:
+      configurable.scrapeCacheTtlSeconds ?? 7 * 24 * 60 * 60,
+    bypassCache: configurable.bypassCache ?? false,
+    tokenBudget: configurable.tokenBudget,
+    costBudgetUsd: configurable.costBudgetUsd,
+    modelPricing: configurable.modelPricing ?? {},
+    minFieldConfidence: configurable.minFieldConfidence ?? 0,
+    reviewMode: configurable.reviewMode ?? false,
+    fanOutField: configurable.fanOutField,
+    maxEntities: configurable.maxEntities ?? 10,
+    historyStrategy: configurable.historyStrategy ?? "full",
+    keepToolExchanges: configurable.keepToolExchanges ?? 3,
     maxInfoToolCalls: configurable.maxInfoToolCalls ?? 3,
     maxLoops: configurable.maxLoops ?? 6,
   };
@@ -0,0 +1,229 @@
+/**
+ * Turn fetched web content into readable text for the scraper.
+ *
+ * Raw HTML wastes most of the model's context on markup, scripts and
+ * navigation. We keep the parts that carry information (headings, paragraphs,
+ * lists, tables and links) and drop the rest.
+ */
+
+// Elements whose content is never useful to the model.
+const DROPPED_ELEMENTS = [
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "svg",
+  "iframe",
+  "canvas",
+  "head",
+];
+
+// Page boilerplate that repeats across a site.
+const BOILERPLATE_ELEMENTS = ["nav", "footer", "aside"];
+
+// Forms with less text than this are search boxes, login forms and the like.
+// Larger forms are kept, since some frameworks (e.g. ASP.NET WebForms) wrap
+// the whole page in one.
+const MAX_BOILERPLATE_FORM_TEXT = 200;
+
+const BLOCK_ELEMENTS =
+  "p|div|section|article|main|header|blockquote|pre|ul|ol|dl|dt|dd|figure|figcaption|address";
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+};
+
+/**
+ * Extract readable text from a fetched response body.
+ *
+ * @param body - The response body.
+ * @param contentType - The value of the Content-Type header, if any.
+ * @param url - The URL the body was fetched from. Used to resolve relative links.
+ * @returns The readable text.
+ * @throws If the content type is not text based (e.g. images or PDFs).
+ */
+export function extractReadableText(
+  body: string,
+  contentType: string | null,
+  url: string,
+): string {
+  const mimeType = (contentType ?? "").split(";")[0].trim().toLowerCase();
+  if (!mimeType || mimeType === "text/html" || mimeType.endsWith("+xml")) {
+    // Some servers do not send a content type, so sniff for markup.
+    if (mimeType || /^\s*<(!doctype|html|head|body)/i.test(body)) {
+      return htmlToText(body, url);
+    }
+    return body.trim();
+  }
+  if (mimeType === "application/json" || mimeType.endsWith("+json")) {
+    try {
+      return JSON.stringify(JSON.parse(body), null, 2);
+    } catch {
+      return body.trim();
+    }
+  }
+  if (mimeType.startsWith("text/") || mimeType.endsWith("/xml")) {
+    return body.trim();
+  }
+  throw new Error(
+    `Unsupported content type "${mimeType}". Only HTML, JSON and text pages can be scraped.`,
+  );
+}
+
+/**
+ * Convert an HTML document into markdown-like text.
+ *
+ * Headings, list items, table rows and links are preserved. Scripts, styles,
+ * navigation boilerplate and small forms are dropped. If the page has a <main> or
+ * <article> element, only its content is kept.
+ *
+ * @param html - The HTML document.
+ * @param url - The URL of the document. Used to resolve relative links.
+ * @returns The readable text.
+ */
+export function htmlToText(html: string, url?: string): string {
+  let text = html.replace(/<!--[\s\S]*?-->/g, "");
+  for (const tag of DROPPED_ELEMENTS) {
+    text = removeElement(text, tag);
+  }
+  const main =
+    findElement(text, "main") ??
+    findElement(text, "article") ??
+    findElement(text, "body") ??
+    text;
+  text = main;
+  for (const tag of BOILERPLATE_ELEMENTS) {
+    text = removeElement(text, tag);
+  }
+  text = text.replace(/<form\b[^>]*>([\s\S]*?)<\/form\s*>/gi, (_, content) =>
+    inline(content).length < MAX_BOILERPLATE_FORM_TEXT ? "" : content,
+  );
+
+  text = text
+    // Headings
+    .replace(
+      /<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi,
+      (_, level, content) =>
+        `\n\n${"#".repeat(Number(level))} ${inline(content)}\n\n`,
+    )
+    // Links
+    .replace(
+      /<a\b[^>]*?href\s*=\s*(["'])(.*?)\1[^>]*>([\s\S]*?)<\/a>/gi,
+      (_, _quote, href, content) => {
+        const label = inline(content);
+        const target = resolveUrl(decodeEntities(href), url);
+        if (!label || !target || target.startsWith("javascript:")) {
+          return label;
+        }
+        return `[${label}](${target})`;
+      },
+    )
+    // Tables
+    .replace(/<t[hd]\b[^>]*>([\s\S]*?)<\/t[hd]>/gi, (_, c) => ` ${inline(c)} |`)
+    .replace(/\s*<tr\b[^>]*>/gi, "\n|")
+    .replace(/<\/?(table|thead|tbody|tfoot)\b[^>]*>/gi, "\n")
+    // Lists and blocks
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(new RegExp(`</?(${BLOCK_ELEMENTS})\\b[^>]*>`, "gi"), "\n\n")
+    // Everything else
+    .replace(/<[^>]+>/g, "");
+
+  return decodeEntities(text)
+    .split("\n")
+    .map((line) => line.replace(/[ \t]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Split text into chunks of at most `chunkSize` characters, preferring
+ * paragraph and line boundaries.
+ *
+ * @param text - The text to split.
+ * @param chunkSize - The maximum number of characters per chunk.
+ * @returns The chunks, in order.
+ */
+export function chunkText(text: string, chunkSize: number): string[] {
+  const chunks: string[] = [];
+  let rest = text.trim();
+  while (rest.length > chunkSize) {
+    const window = rest.slice(0, chunkSize);
+    let end = window.lastIndexOf("\n\n");
+    if (end < chunkSize / 2) {
+      end = window.lastIndexOf("\n");
+    }
+    if (end < chunkSize / 2) {
+      end = window.lastIndexOf(" ");
+    }
+    if (end < chunkSize / 2) {
+      end = chunkSize;
+    }
+    chunks.push(rest.slice(0, end).trim());
+    rest = rest.slice(end).trim();
+  }
+  if (rest) {
+    chunks.push(rest);
+  }
+  return chunks;
+}
+
+function removeElement(html: string, tag: string): string {
+  return html
+    .replace(new RegExp(`<${tag}\\b[^>]*>[\\s\\S]*?</${tag}\\s*>`, "gi"), "")
+    .replace(new RegExp(`<${tag}\\b[^>]*/>`, "gi"), "");
+}
+
+function findElement(html: string, tag: string): string | undefined {
+  const match = new RegExp(
+    `<${tag}\\b[^>]*>([\\s\\S]*)</${tag}\\s*>`,
+    "i",
+  ).exec(html);
+  return match?.[1];
+}
+
+function inline(html: string): string {
+  return html
+    .replace(/<[^>]+>/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function resolveUrl(href: string, base?: string): string {
+  try {
+    return new URL(href, base).toString();
+  } catch {
+    return href;
+  }
+}
+
+/**
+ * Decode the HTML entities in a piece of text.
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(
+    /&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi,
+    (entity, code: string) => {
+      if (code[0] === "#") {
+        const value =
+          code[1].toLowerCase() === "x"
+            ? parseInt(code.slice(2), 16)
+            : parseInt(code.slice(1), 10);
+        return Number.isNaN(value) ? entity : String.fromCodePoint(value);
+      }
+      return ENTITIES[code.toLowerCase()] ?? entity;
+    },
+  );
+}
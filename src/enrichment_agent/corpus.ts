@@ -0,0 +1,302 @@
+/**
+ * A local corpus of documents the agent can search and read next to the web.
+ *
+ * Internal documents (markdown, text, HTML and JSON exports, and PDFs) are
+ * indexed from the configured `corpusDir` and ranked with BM25. Documents are
+ * identified by their file:// URL, so they are cited, cached and reported the
+ * same way as web pages.
+ */
+import { readdir, readFile, realpath, stat } from "fs/promises";
+import path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+
+import { chunkText, extractReadableText } from "./content.js";
+import { SearchResult } from "./search.js";
+
+// The content type each supported file extension is read as.
+const CONTENT_TYPES: Record<string, string> = {
+  ".md": "text/markdown",
+  ".markdown": "text/markdown",
+  ".txt": "text/plain",
+  ".html": "text/html",
+  ".htm": "text/html",
+  ".json": "application/json",
+  ".pdf": "application/pdf",
+};
+
+// The number of characters per indexed passage. Search results show the
+// best-matching passage of each document.
+const PASSAGE_SIZE = 1_000;
+
+// BM25 parameters.
+const K1 = 1.2;
+const B = 0.75;
+
+interface Passage {
+  url: string;
+  title: string;
+  content: string;
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+/**
+ * A BM25 index over the passages of the documents in a directory.
+ */
+export interface CorpusIndex {
+  passages: Passage[];
+  /**
+   * The number of passages each term appears in.
+   */
+  documentFrequencies: Map<string, number>;
+  averageLength: number;
+  /**
+   * Documents that could not be read, with the reason.
+   */
+  skipped: { url: string; reason: string }[];
+}
+
+// Indexes are rebuilt only when a file in the corpus is added, removed or changed.
+const indexes = new Map<string, { signature: string; index: CorpusIndex }>();
+
+/**
+ * List the supported documents in a directory and its subdirectories.
+ *
+ * Hidden files and directories are skipped.
+ *
+ * @param directory - The corpus directory.
+ * @returns The absolute paths of the documents, sorted.
+ */
+export async function listDocuments(directory: string): Promise<string[]> {
+  const files: string[] = [];
+  const entries = await readdir(path.resolve(directory), {
+    withFileTypes: true,
+  });
+  for (const entry of entries) {
+    if (entry.name.startsWith(".")) {
+      continue;
+    }
+    const fullPath = path.join(path.resolve(directory), entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listDocuments(fullPath)));
+    } else if (entry.isFile() && documentContentType(fullPath)) {
+      files.push(fullPath);
+    }
+  }
+  return files.sort();
+}
+
+/**
+ * Read a document as text.
+ *
+ * HTML and JSON are converted the same way as scraped pages. PDFs are read
+ * with the PDF loader of @langchain/community.
+ *
+ * @param filePath - The absolute path of the document.
+ * @returns The readable text of the document.
+ * @throws If the file type is not supported or the file cannot be read.
+ */
+export async function readDocumentText(filePath: string): Promise<string> {
+  const contentType = documentContentType(filePath);
+  if (!contentType) {
+    throw new Error(
+      `Unsupported document type "${path.extname(filePath)}". Supported types are ${Object.keys(CONTENT_TYPES).join(", ")}.`,
+    );
+  }
+  if (contentType === "application/pdf") {
+    const { PDFLoader } = await import(
+      "@langchain/community/document_loaders/fs/pdf"
+    );
+    const documents = await new PDFLoader(filePath, {
+      splitPages: false,
+    }).load();
+    return documents
+      .map((document) => document.pageContent)
+      .join("\n\n")
+      .trim();
+  }
+  return extractReadableText(
+    await readFile(filePath, "utf8"),
+    contentType,
+    pathToFileURL(filePath).href,
+  );
+}
+
+/**
+ * Load the index of a corpus directory, building it if any document changed
+ * since it was last built.
+ *
+ * @param directory - The corpus directory.
+ * @returns The index.
+ */
+export async function loadCorpus(directory: string): Promise<CorpusIndex> {
+  const root = path.resolve(directory);
+  const files = await listDocuments(root);
+  const stats = await Promise.all(files.map((file) => stat(file)));
+  const signature = JSON.stringify(
+    files.map((file, i) => [file, stats[i].mtimeMs, stats[i].size]),
+  );
+  const cached = indexes.get(root);
+  if (cached?.signature === signature) {
+    return cached.index;
+  }
+
+  const passages: Passage[] = [];
+  const skipped: CorpusIndex["skipped"] = [];
+  for (const file of files) {
+    const url = pathToFileURL(file).href;
+    let text: string;
+    try {
+      text = await readDocumentText(file);
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (e: any) {
+      skipped.push({ url, reason: e?.message ?? String(e) });
+      continue;
+    }
+    const title = path.relative(root, file);
+    for (const content of chunkText(text, PASSAGE_SIZE)) {
+      const terms = tokenize(`${title}\n${content}`);
+      const termFrequencies = new Map<string, number>();
+      for (const term of terms) {
+        termFrequencies.set(term, (termFrequencies.get(term) ?? 0) + 1);
+      }
+      passages.push({
+        url,
+        title,
+        content,
+        termFrequencies,
+        length: terms.length,
+      });
+    }
+  }
+
+  const documentFrequencies = new Map<string, number>();
+  for (const passage of passages) {
+    for (const term of passage.termFrequencies.keys()) {
+      documentFrequencies.set(term, (documentFrequencies.get(term) ?? 0) + 1);
+    }
+  }
+  const index: CorpusIndex = {
+    passages,
+    documentFrequencies,
+    averageLength:
+      passages.reduce((total, passage) => total + passage.length, 0) /
+      Math.max(passages.length, 1),
+    skipped,
+  };
+  indexes.set(root, { signature, index });
+  return index;
+}
+
+/**
+ * Rank the documents of a corpus against a query with BM25.
+ *
+ * Each document is scored by its best-matching passage, which is returned as
+ * the result's content.
+ *
+ * @param index - The corpus index.
+ * @param query - The search query.
+ * @param maxResults - The maximum number of documents to return.
+ * @returns The matching documents, best first, in the same shape as web search results.
+ */
+export function searchCorpus(
+  index: CorpusIndex,
+  query: string,
+  maxResults: number,
+): SearchResult[] {
+  const terms = [...new Set(tokenize(query))];
+  const best = new Map<string, { passage: Passage; score: number }>();
+  for (const passage of index.passages) {
+    let score = 0;
+    for (const term of terms) {
+      const frequency = passage.termFrequencies.get(term);
+      if (!frequency) {
+        continue;
+      }
+      const documentFrequency = index.documentFrequencies.get(term) ?? 0;
+      const idf = Math.log(
+        1 +
+          (index.passages.length - documentFrequency + 0.5) /
+            (documentFrequency + 0.5),
+      );
+      score +=
+        (idf * frequency * (K1 + 1)) /
+        (frequency +
+          K1 * (1 - B + (B * passage.length) / (index.averageLength || 1)));
+    }
+    if (score > 0 && score > (best.get(passage.url)?.score ?? 0)) {
+      best.set(passage.url, { passage, score });
+    }
+  }
+  return [...best.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, maxResults)
+    .map(({ passage, score }) => ({
+      title: passage.title,
+      url: passage.url,
+      content: passage.content,
+      score: Math.round(score * 1000) / 1000,
+    }));
+}
+
+/**
+ * Resolve a document reference to a file in the corpus.
+ *
+ * @param directory - The corpus directory.
+ * @param reference - A file:// URL as returned by searchCorpus, or a path relative to the corpus.
+ * @returns The absolute path of the document.
+ * @throws If the reference points outside the corpus (also through a
+ *   symlink), or to a file that does not exist or is not a supported document.
+ */
+export async function resolveDocument(
+  directory: string,
+  reference: string,
+): Promise<string> {
+  const root = path.resolve(directory);
+  const filePath = reference.startsWith("file:")
+    ? fileURLToPath(reference)
+    : path.resolve(root, reference);
+  const outsideCorpus = () =>
+    new Error(
+      `${reference} is not a document in the corpus. Use a URL returned by SearchDocuments.`,
+    );
+  if (!isInside(root, filePath)) {
+    throw outsideCorpus();
+  }
+  const info = await stat(filePath).catch(() => undefined);
+  if (!info?.isFile()) {
+    throw new Error(
+      `Document ${reference} not found. Use a URL returned by SearchDocuments.`,
+    );
+  }
+  // Symlinks may point anywhere, so check where the file really is.
+  if (!isInside(await realpath(root), await realpath(filePath))) {
+    throw outsideCorpus();
+  }
+  if (!documentContentType(filePath)) {
+    throw new Error(`${reference} is not a supported document type.`);
+  }
+  return filePath;
+}
+
+/**
+ * Split text into lowercase search terms.
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(
+    (term) => term.length > 1,
+  );
+}
+
+function documentContentType(filePath: string): string | undefined {
+  return CONTENT_TYPES[path.extname(filePath).toLowerCase()];
+}
+
+function isInside(root: string, filePath: string): boolean {
+  const relative = path.relative(root, filePath);
+  return (
+    Boolean(relative) &&
+    !relative.startsWith("..") &&
+    !path.isAbsolute(relative)
+  );
+}
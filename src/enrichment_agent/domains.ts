@@ -0,0 +1,182 @@
+/**
+ * Source quality by domain.
+ *
+ * The configured allow and deny lists decide which domains may be used at
+ * all. Every domain gets a trust score: preferred domains score high, other
+ * domains get a neutral score, and `domainTrust` overrides both. Search
+ * results are ranked by the trust score of their domain, and the reflection
+ * step is told how trustworthy the sources behind the research were.
+ */
+import { ConfigurationAnnotation } from "./configuration.js";
+import { Evidence } from "./provenance.js";
+
+type DomainConfiguration = Pick<
+  typeof ConfigurationAnnotation.State,
+  "allowedDomains" | "deniedDomains" | "preferredDomains" | "domainTrust"
+>;
+
+// The trust score of preferred domains, and of the user's local documents.
+const PREFERRED_TRUST = 0.9;
+// The trust score of domains the configuration says nothing about.
+const DEFAULT_TRUST = 0.5;
+
+/**
+ * The trust score of a domain consulted during the research.
+ */
+export interface DomainTrust {
+  /**
+   * The domain, or "local documents" for documents from the corpus.
+   */
+  domain: string;
+  /**
+   * From 0 (unreliable) to 1 (authoritative).
+   */
+  trust: number;
+  /**
+   * The number of search results and scraped pages from the domain.
+   */
+  sources: number;
+}
+
+/**
+ * The host of a web URL, lowercased and without a leading "www.".
+ *
+ * @returns The host, or undefined if the URL is not an http(s) URL.
+ */
+export function hostOf(url: string): string | undefined {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+      return undefined;
+    }
+    return normalizeDomain(parsed.hostname);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Whether a URL may be searched for and scraped.
+ *
+ * Denied domains are never allowed. If there is an allowlist, only its
+ * domains are. Subdomains count as part of their domain. URLs that are not
+ * on the web, such as local documents, are always allowed.
+ */
+export function isDomainAllowed(
+  url: string,
+  configuration: Pick<DomainConfiguration, "allowedDomains" | "deniedDomains">,
+): boolean {
+  const host = hostOf(url);
+  if (host === undefined) {
+    return !/^https?:/i.test(url);
+  }
+  if (configuration.deniedDomains.some((domain) => inDomain(host, domain))) {
+    return false;
+  }
+  return (
+    !configuration.allowedDomains.length ||
+    configuration.allowedDomains.some((domain) => inDomain(host, domain))
+  );
+}
+
+/**
+ * The trust score of the domain of a URL, from 0 (unreliable) to 1 (authoritative).
+ *
+ * The most specific entry of `domainTrust` wins. Otherwise, preferred domains
+ * and local documents score 0.9 and other domains 0.5.
+ */
+export function trustScore(
+  url: string,
+  configuration: Pick<DomainConfiguration, "preferredDomains" | "domainTrust">,
+): number {
+  const host = hostOf(url);
+  if (host === undefined) {
+    return PREFERRED_TRUST;
+  }
+  const [override] = Object.entries(configuration.domainTrust)
+    .filter(([domain]) => inDomain(host, domain))
+    .sort(([a], [b]) => normalizeDomain(b).length - normalizeDomain(a).length);
+  if (override) {
+    return override[1];
+  }
+  return configuration.preferredDomains.some((domain) => inDomain(host, domain))
+    ? PREFERRED_TRUST
+    : DEFAULT_TRUST;
+}
+
+/**
+ * Drop the search results from domains that may not be used, and rank the
+ * rest by the trust score of their domain. Results with the same score keep
+ * the search engine's order.
+ */
+export function rankResults<T extends { url: string }>(
+  results: T[],
+  configuration: DomainConfiguration,
+): T[] {
+  return results
+    .filter((result) => isDomainAllowed(result.url, configuration))
+    .map((result, i) => ({
+      result,
+      i,
+      trust: trustScore(result.url, configuration),
+    }))
+    .sort((a, b) => b.trust - a.trust || a.i - b.i)
+    .map(({ result }) => result);
+}
+
+/**
+ * The trust scores of the domains the evidence came from, least trusted first.
+ *
+ * @param evidence - The evidence returned by collectEvidence.
+ * @param configuration - The agent configuration.
+ */
+export function sourceTrust(
+  evidence: Evidence[],
+  configuration: DomainConfiguration,
+): DomainTrust[] {
+  const domains = new Map<string, DomainTrust>();
+  for (const { url } of evidence) {
+    const domain = hostOf(url) ?? "local documents";
+    const entry = domains.get(domain) ?? {
+      domain,
+      trust: trustScore(url, configuration),
+      sources: 0,
+    };
+    entry.sources += 1;
+    domains.set(domain, entry);
+  }
+  return [...domains.values()].sort(
+    (a, b) => a.trust - b.trust || a.domain.localeCompare(b.domain),
+  );
+}
+
+/**
+ * Render domain trust scores as a list for the reflection prompt.
+ */
+export function formatSourceTrust(domains: DomainTrust[]): string {
+  return domains
+    .map(
+      ({ domain, trust, sources }) =>
+        `- ${domain}: trust ${trust} (${sources} ${sources === 1 ? "source" : "sources"})`,
+    )
+    .join("\n");
+}
+
+function inDomain(host: string, domain: string): boolean {
+  const normalized = normalizeDomain(domain);
+  return (
+    Boolean(normalized) &&
+    (host === normalized || host.endsWith(`.${normalized}`))
+  );
+}
+
+// Accept domains written as URLs or wildcards, e.g. "https://www.example.com/" or "*.example.com".
+function normalizeDomain(domain: string): string {
+  return domain
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, "")
+    .replace(/[/:?#].*$/, "")
+    .replace(/^\*\./, "")
+    .replace(/^www\./, "");
+}
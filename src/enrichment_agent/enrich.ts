@@ -0,0 +1,62 @@
+/**
+ * Enrich a single topic, with info typed by a Zod extraction schema.
+ */
+import { RunnableConfig } from "@langchain/core/runnables";
+import { isZodSchema } from "@langchain/core/utils/types";
+import { z } from "zod";
+
+import { graph } from "./graph.js";
+import { AnyRecord, FieldPolicy, StateAnnotation } from "./state.js";
+
+/**
+ * The input of a single enrichment.
+ */
+export interface EnrichmentInput<T extends AnyRecord> {
+  topic: string;
+  /**
+   * A Zod schema of an object, or a JSON Schema.
+   */
+  extractionSchema: z.ZodType<T> | AnyRecord;
+  /**
+   * An existing (partial) record to enrich.
+   */
+  info?: Partial<T>;
+  fieldPolicies?: Record<string, FieldPolicy>;
+  trackProvenance?: boolean;
+}
+
+/**
+ * The final state of the graph, with typed info.
+ */
+export type EnrichmentResult<T extends AnyRecord> = Omit<
+  typeof StateAnnotation.State,
+  "info"
+> & {
+  info?: T;
+};
+
+/**
+ * Run the graph on a single topic.
+ *
+ * With a Zod extraction schema, the final info is parsed with it, so it is
+ * typed and has the schema's defaults and transforms applied. Info that does
+ * not match the schema (e.g. when the research ended before all required
+ * fields were found) is returned as-is.
+ *
+ * @param input - The topic, schema and optional existing record.
+ * @param config - The run config.
+ * @returns The final state of the graph.
+ */
+export async function enrich<T extends AnyRecord = AnyRecord>(
+  input: EnrichmentInput<T>,
+  config?: RunnableConfig,
+): Promise<EnrichmentResult<T>> {
+  const state = await graph.invoke(input, config);
+  if (isZodSchema(input.extractionSchema) && state.info) {
+    const parsed = input.extractionSchema.safeParse(state.info);
+    if (parsed.success) {
+      return { ...state, info: parsed.data };
+    }
+  }
+  return state as EnrichmentResult<T>;
+}
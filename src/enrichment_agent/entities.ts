@@ -0,0 +1,147 @@
+/**
+ * Helpers for multi-entity extraction.
+ *
+ * In fan-out mode, one array field of the extraction schema lists entities
+ * (companies, products, people, ...). A discovery run finds their names, and
+ * each entity is then researched in its own run against the schema of a
+ * single array item. These helpers derive the schemas for both phases and
+ * combine the per-entity results.
+ */
+import { AnyRecord } from "./state.js";
+
+/**
+ * Get the schema of a single entity in the fan-out field.
+ *
+ * @param schema - The extraction schema.
+ * @param field - The top-level array field to fan out over.
+ * @returns The item schema, with the definitions it may reference.
+ * @throws Error if the field is not an array of objects.
+ */
+export function entitySchema(schema: AnyRecord, field: string): AnyRecord {
+  const property = schema.properties?.[field];
+  if (property?.type !== "array" || property.items?.type !== "object") {
+    throw new Error(
+      `fanOutField "${field}" must be a top-level array of objects in the extraction schema.`,
+    );
+  }
+  const definitions = Object.fromEntries(
+    ["$defs", "definitions"]
+      .filter((key) => schema[key] !== undefined)
+      .map((key) => [key, schema[key]]),
+  );
+  return { ...property.items, ...definitions };
+}
+
+/**
+ * Derive the schema of the discovery run. The fan-out field only lists the
+ * names of the entities. The other fields are researched as usual.
+ *
+ * @param schema - The extraction schema.
+ * @param field - The top-level array field to fan out over.
+ * @param maxEntities - The maximum number of entities to discover.
+ * @returns The discovery schema.
+ */
+export function discoverySchema(
+  schema: AnyRecord,
+  field: string,
+  maxEntities: number,
+): AnyRecord {
+  const property = schema.properties[field];
+  const description = [
+    `The names of the distinct entities to research, at most ${maxEntities}.`,
+    property.description && `Each entity is: ${property.description}`,
+  ]
+    .filter(Boolean)
+    .join(" ");
+  return {
+    ...schema,
+    properties: {
+      ...schema.properties,
+      [field]: {
+        type: "array",
+        items: { type: "string" },
+        maxItems: maxEntities,
+        description,
+      },
+    },
+  };
+}
+
+/**
+ * Find the property of an entity that holds its name, e.g. "name" or "company".
+ *
+ * @param schema - The entity schema.
+ * @returns The property name, or undefined if the schema has no string properties.
+ */
+export function nameProperty(schema: AnyRecord): string | undefined {
+  const properties: AnyRecord = schema.properties ?? {};
+  const strings = Object.keys(properties).filter(
+    (key) => properties[key]?.type === "string",
+  );
+  return (
+    strings.find((key) => key.toLowerCase() === "name") ??
+    strings.find((key) => schema.required?.includes(key)) ??
+    strings[0]
+  );
+}
+
+/**
+ * Remove duplicate entity names, keeping the first spelling of each.
+ *
+ * @param names - The discovered names.
+ * @param maxEntities - The maximum number of names to keep.
+ * @returns The distinct names.
+ */
+export function distinctNames(names: unknown[], maxEntities: number): string[] {
+  const seen = new Set<string>();
+  const distinct: string[] = [];
+  for (const name of names) {
+    if (typeof name !== "string" || !normalize(name)) {
+      continue;
+    }
+    if (!seen.has(normalize(name))) {
+      seen.add(normalize(name));
+      distinct.push(name.trim());
+    }
+  }
+  return distinct.slice(0, maxEntities);
+}
+
+/**
+ * Combine the researched entities into the items of the fan-out field.
+ * Entities that turn out to be the same (by name) are merged into one item.
+ *
+ * @param entities - The researched entities, in discovery order.
+ * @param schema - The entity schema.
+ * @param merge - Merges two entities describing the same thing.
+ * @param infoOf - Gets the info of an entity. Defaults to the entity itself.
+ * @returns The distinct entities.
+ */
+export function mergeEntities<T>(
+  entities: T[],
+  schema: AnyRecord,
+  merge: (current: T, update: T) => T,
+  infoOf: (entity: T) => AnyRecord = (entity) => entity as AnyRecord,
+): T[] {
+  const key = nameProperty(schema);
+  const items: T[] = [];
+  const byName = new Map<string, number>();
+  for (const entity of entities) {
+    const value = key ? infoOf(entity)[key] : undefined;
+    const name = typeof value === "string" ? normalize(value) : "";
+    const index = name ? byName.get(name) : undefined;
+    if (index === undefined) {
+      if (name) {
+        byName.set(name, items.length);
+      }
+      items.push(entity);
+    } else {
+      items[index] = merge(items[index], entity);
+    }
+  }
+  return items;
+}
+
+function normalize(name: string): string {
+  return name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, "");
+}
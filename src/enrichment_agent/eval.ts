@@ -0,0 +1,528 @@
+/**
+ * Measure extraction quality against a gold dataset.
+ *
+ * Each row of the dataset lists a topic, its extraction schema and the info
+ * the graph is expected to extract. The graph is run on every row and each
+ * field is compared with the expected value, so changes to the prompts or the
+ * configuration can be scored and compared side by side.
+ */
+import { readFile } from "fs/promises";
+import { RunnableConfig } from "@langchain/core/runnables";
+
+import { BatchGraph } from "./batch.js";
+import { ensureConfiguration } from "./configuration.js";
+import { graph } from "./graph.js";
+import { isEqual } from "./seed.js";
+import { AnyRecord, TerminationReason } from "./state.js";
+import { addUsage, emptyUsage, TokenUsage } from "./usage.js";
+import { isEmpty } from "./validation.js";
+
+/**
+ * A row of the gold dataset.
+ */
+export interface EvalExample {
+  /**
+   * Identifies the row in the results. Defaults to the topic.
+   */
+  id?: string;
+  topic: string;
+  extractionSchema: AnyRecord;
+  /**
+   * The info the graph should extract. Fields left out are not scored.
+   */
+  expected: AnyRecord;
+}
+
+/**
+ * How a field is compared with its expected value.
+ *
+ * - exact: deep equality.
+ * - normalized: strings are compared ignoring case, accents, punctuation and whitespace.
+ * - set: arrays are compared item by item, ignoring order. Each item counts towards precision and recall.
+ * - numeric: numbers (or numeric strings) match within `numericTolerance`.
+ */
+export type FieldComparison = "exact" | "normalized" | "set" | "numeric";
+
+/**
+ * The comparison of one field of one row.
+ */
+export interface FieldResult {
+  comparison: FieldComparison;
+  expected: unknown;
+  predicted: unknown;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+}
+
+/**
+ * The outcome of one row.
+ */
+export interface ExampleResult {
+  id: string;
+  topic: string;
+  info?: AnyRecord;
+  fields: Record<string, FieldResult>;
+  loopStep?: number;
+  tokenUsage?: TokenUsage;
+  terminationReason?: TerminationReason;
+  error?: string;
+}
+
+/**
+ * Precision and recall of a field, across all rows.
+ * Precision is null if nothing was predicted, recall if nothing was expected.
+ */
+export interface FieldMetrics {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+}
+
+/**
+ * The results of evaluating one configuration.
+ */
+export interface EvalReport {
+  examples: ExampleResult[];
+  fields: Record<string, FieldMetrics>;
+  /**
+   * The metrics of all fields together (micro-averaged).
+   */
+  overall: FieldMetrics;
+  /**
+   * The mean number of research loops per completed row. Rows that failed are
+   * left out, and counted in `errors` instead. Null if no row completed.
+   */
+  meanLoops: number | null;
+  tokenUsage: TokenUsage;
+  errors: number;
+}
+
+export interface EvalOptions {
+  /**
+   * The rows to evaluate, or the path of a JSONL file listing them.
+   */
+  dataset: EvalExample[] | string;
+  /**
+   * The configuration to evaluate.
+   */
+  config?: RunnableConfig;
+  /**
+   * The comparison to use per field. By default, arrays are compared as sets,
+   * numbers numerically, strings normalized and anything else exactly.
+   */
+  comparisons?: Record<string, FieldComparison>;
+  /**
+   * The relative difference allowed between numbers. Defaults to 0.01 (1%).
+   */
+  numericTolerance?: number;
+  /**
+   * The maximum number of rows run at the same time. Defaults to 2.
+   */
+  concurrency?: number;
+  /**
+   * The graph to run. Defaults to the ResearchTopic graph.
+   */
+  graph?: BatchGraph;
+  /**
+   * Called after each row finishes.
+   */
+  onResult?: (result: ExampleResult) => void;
+}
+
+/**
+ * Run the graph on every row of the dataset and score the results.
+ *
+ * @param options - The evaluation options.
+ * @returns The per-row results and the metrics of each field.
+ * @throws Error if review mode is set, since runs stopped for review are never resumed.
+ */
+export async function evaluate(options: EvalOptions): Promise<EvalReport> {
+  const { config, concurrency = 2, onResult } = options;
+  // Runs stopped for review are never resumed, so they would not finish.
+  if (ensureConfiguration(config).reviewMode) {
+    throw new Error(`Evaluations do not support reviewMode.`);
+  }
+  const runnable = options.graph ?? graph;
+  const dataset =
+    typeof options.dataset === "string"
+      ? await loadDataset(options.dataset)
+      : options.dataset;
+
+  const examples: ExampleResult[] = new Array(dataset.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < dataset.length) {
+      const index = next;
+      next += 1;
+      const example = dataset[index];
+      let result: ExampleResult;
+      try {
+        const state = await runnable.invoke(
+          { topic: example.topic, extractionSchema: example.extractionSchema },
+          config,
+        );
+        result = scoreExample(example, state.info, options);
+        result.loopStep = state.loopStep;
+        result.tokenUsage = state.tokenUsage;
+        result.terminationReason = state.terminationReason;
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      } catch (e: any) {
+        result = scoreExample(example, undefined, options);
+        result.error = e?.message ?? String(e);
+      }
+      examples[index] = result;
+      onResult?.(result);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.max(1, concurrency) }, () => worker()),
+  );
+  return summarize(examples);
+}
+
+/**
+ * Evaluate several configurations on the same dataset, one after the other.
+ *
+ * @param options - The evaluation options, without `config`.
+ * @param configs - The configurations to compare, by name.
+ * @returns The report of each configuration, by name.
+ */
+export async function compareConfigs(
+  options: Omit<EvalOptions, "config">,
+  configs: Record<string, RunnableConfig>,
+): Promise<Record<string, EvalReport>> {
+  const dataset =
+    typeof options.dataset === "string"
+      ? await loadDataset(options.dataset)
+      : options.dataset;
+  const reports: Record<string, EvalReport> = {};
+  for (const [name, config] of Object.entries(configs)) {
+    reports[name] = await evaluate({ ...options, dataset, config });
+  }
+  return reports;
+}
+
+/**
+ * Score the extracted info of one row against the expected info.
+ *
+ * @param example - The row of the dataset.
+ * @param info - The info extracted by the graph.
+ * @param options - The comparison options.
+ * @returns The result of each expected field.
+ */
+export function scoreExample(
+  example: EvalExample,
+  info: AnyRecord | undefined,
+  options: Pick<EvalOptions, "comparisons" | "numericTolerance"> = {},
+): ExampleResult {
+  const fields: Record<string, FieldResult> = {};
+  for (const [field, expected] of Object.entries(example.expected)) {
+    const comparison =
+      options.comparisons?.[field] ??
+      defaultComparison(example.extractionSchema.properties?.[field]);
+    fields[field] = compareField(
+      comparison,
+      expected,
+      info?.[field],
+      options.numericTolerance ?? 0.01,
+    );
+  }
+  return {
+    id: example.id ?? example.topic,
+    topic: example.topic,
+    info,
+    fields,
+  };
+}
+
+function defaultComparison(property: AnyRecord | undefined): FieldComparison {
+  switch (property?.type) {
+    case "array":
+      return "set";
+    case "number":
+    case "integer":
+      return "numeric";
+    case "string":
+      return "normalized";
+    default:
+      return "exact";
+  }
+}
+
+function compareField(
+  comparison: FieldComparison,
+  expected: unknown,
+  predicted: unknown,
+  tolerance: number,
+): FieldResult {
+  const result = {
+    comparison,
+    expected,
+    predicted,
+    truePositives: 0,
+    falsePositives: 0,
+    falseNegatives: 0,
+  };
+  if (comparison === "set" && (Array.isArray(expected) || isEmpty(expected))) {
+    const expectedItems = toArray(expected).map(itemKey);
+    const predictedItems = new Set(toArray(predicted).map(itemKey));
+    const matched = new Set(
+      expectedItems.filter((item) => predictedItems.has(item)),
+    );
+    result.truePositives = matched.size;
+    result.falseNegatives = new Set(expectedItems).size - matched.size;
+    result.falsePositives = predictedItems.size - matched.size;
+    return result;
+  }
+  const hasExpected = !isEmpty(expected);
+  const hasPredicted = !isEmpty(predicted);
+  if (
+    hasExpected &&
+    hasPredicted &&
+    matches(comparison, expected, predicted, tolerance)
+  ) {
+    result.truePositives = 1;
+  } else {
+    result.falseNegatives = hasExpected ? 1 : 0;
+    result.falsePositives = hasPredicted ? 1 : 0;
+  }
+  return result;
+}
+
+function matches(
+  comparison: FieldComparison,
+  expected: unknown,
+  predicted: unknown,
+  tolerance: number,
+): boolean {
+  switch (comparison) {
+    case "normalized":
+      return typeof expected === "string" && typeof predicted === "string"
+        ? normalizeText(expected) === normalizeText(predicted)
+        : isEqual(expected, predicted);
+    case "numeric": {
+      const a = toNumber(expected);
+      const b = toNumber(predicted);
+      if (a === undefined || b === undefined) {
+        return isEqual(expected, predicted);
+      }
+      return Math.abs(a - b) <= tolerance * Math.max(Math.abs(a), Math.abs(b));
+    }
+    default:
+      return isEqual(expected, predicted);
+  }
+}
+
+function toArray(value: unknown): unknown[] {
+  if (isEmpty(value)) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
+function itemKey(item: unknown): string {
+  return typeof item === "string"
+    ? normalizeText(item)
+    : JSON.stringify(sortKeys(item));
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, sortKeys((value as AnyRecord)[key])]),
+    );
+  }
+  return value;
+}
+
+function normalizeText(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+function toNumber(value: unknown): number | undefined {
+  const number =
+    typeof value === "string" ? Number(value.replace(/[,_\s]/g, "")) : value;
+  return typeof number === "number" && Number.isFinite(number)
+    ? number
+    : undefined;
+}
+
+function metrics(
+  truePositives: number,
+  falsePositives: number,
+  falseNegatives: number,
+): FieldMetrics {
+  const precision =
+    truePositives + falsePositives
+      ? truePositives / (truePositives + falsePositives)
+      : null;
+  const recall =
+    truePositives + falseNegatives
+      ? truePositives / (truePositives + falseNegatives)
+      : null;
+  const f1 =
+    precision !== null && recall !== null && precision + recall
+      ? (2 * precision * recall) / (precision + recall)
+      : null;
+  return {
+    truePositives,
+    falsePositives,
+    falseNegatives,
+    precision,
+    recall,
+    f1,
+  };
+}
+
+function summarize(examples: ExampleResult[]): EvalReport {
+  const counts: Record<string, [number, number, number]> = {};
+  for (const example of examples) {
+    for (const [field, result] of Object.entries(example.fields)) {
+      const [tp, fp, fn] = counts[field] ?? [0, 0, 0];
+      counts[field] = [
+        tp + result.truePositives,
+        fp + result.falsePositives,
+        fn + result.falseNegatives,
+      ];
+    }
+  }
+  const fields = Object.fromEntries(
+    Object.entries(counts).map(([field, [tp, fp, fn]]) => [
+      field,
+      metrics(tp, fp, fn),
+    ]),
+  );
+  const totals = Object.values(counts).reduce(
+    ([tp, fp, fn], [a, b, c]) => [tp + a, fp + b, fn + c],
+    [0, 0, 0],
+  );
+  const loops = examples
+    .filter((example) => !example.error)
+    .map((example) => example.loopStep ?? 0);
+  return {
+    examples,
+    fields,
+    overall: metrics(...totals),
+    meanLoops: loops.length
+      ? loops.reduce((sum, loopStep) => sum + loopStep, 0) / loops.length
+      : null,
+    tokenUsage: examples
+      .map((example) => example.tokenUsage ?? emptyUsage())
+      .reduce(addUsage, emptyUsage()),
+    errors: examples.filter((example) => example.error).length,
+  };
+}
+
+/**
+ * Load a gold dataset from a JSONL file, one row per line.
+ *
+ * @param path - The path of the file.
+ * @returns The rows of the dataset.
+ * @throws Error if a line is missing its topic, extractionSchema or expected info.
+ */
+export async function loadDataset(path: string): Promise<EvalExample[]> {
+  const content = await readFile(path, "utf8");
+  const examples: EvalExample[] = [];
+  content.split("\n").forEach((line, i) => {
+    if (!line.trim()) {
+      return;
+    }
+    const row = JSON.parse(line);
+    if (
+      typeof row?.topic !== "string" ||
+      typeof row.extractionSchema !== "object" ||
+      typeof row.expected !== "object"
+    ) {
+      throw new Error(
+        `Line ${i + 1} of ${path} must have a "topic", an "extractionSchema" and the "expected" info.`,
+      );
+    }
+    examples.push(row);
+  });
+  return examples;
+}
+
+/**
+ * Render the reports of one or more configurations as a Markdown table,
+ * with the precision and recall of each field side by side.
+ *
+ * @param reports - The reports, by configuration name.
+ * @returns A Markdown document.
+ */
+export function comparisonToMarkdown(
+  reports: Record<string, EvalReport>,
+): string {
+  const names = Object.keys(reports);
+  const fields = [
+    ...new Set(names.flatMap((name) => Object.keys(reports[name].fields))),
+  ];
+  const percent = (value: number | null | undefined) =>
+    value === null || value === undefined
+      ? "n/a"
+      : `${(value * 100).toFixed(1)}%`;
+  const row = (label: string, cells: string[]) =>
+    `| ${[label, ...cells].join(" | ")} |`;
+  const lines = [
+    row(
+      "Field",
+      names.flatMap((name) => [`${name} precision`, `${name} recall`]),
+    ),
+    row(
+      "---",
+      names.flatMap(() => ["---", "---"]),
+    ),
+    ...fields.map((field) =>
+      row(
+        field,
+        names.flatMap((name) => [
+          percent(reports[name].fields[field]?.precision),
+          percent(reports[name].fields[field]?.recall),
+        ]),
+      ),
+    ),
+    row(
+      "**Overall**",
+      names.flatMap((name) => [
+        percent(reports[name].overall.precision),
+        percent(reports[name].overall.recall),
+      ]),
+    ),
+    "",
+    row("", names),
+    row(
+      "---",
+      names.map(() => "---"),
+    ),
+    row(
+      "Mean loops",
+      names.map((name) => reports[name].meanLoops?.toFixed(1) ?? "n/a"),
+    ),
+    row(
+      "Tokens",
+      names.map((name) => String(reports[name].tokenUsage.totalTokens)),
+    ),
+    row(
+      "Estimated cost",
+      names.map((name) => `$${reports[name].tokenUsage.costUsd.toFixed(4)}`),
+    ),
+    row(
+      "Errors",
+      names.map((name) => String(reports[name].errors)),
+    ),
+  ];
+  return `${lines.join("\n")}\n`;
+}
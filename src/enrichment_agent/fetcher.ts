@@ -0,0 +1,495 @@
+/**
+ * A polite fetch layer for the scraper.
+ *
+ * Every request identifies itself with a User-Agent, is limited to the allowed
+ * domains, obeys robots.txt, is throttled per domain and is bounded in time,
+ * size and redirects. Requests that are refused throw a FetchRefusedError
+ * explaining why, so the agent can pick a different source instead of retrying.
+ */
+import { ConfigurationAnnotation } from "./configuration.js";
+import { isDomainAllowed } from "./domains.js";
+
+/**
+ * Thrown when a page cannot or may not be fetched.
+ */
+export class FetchRefusedError extends Error {
+  name = "FetchRefusedError";
+
+  constructor(
+    message: string,
+    public readonly reason:
+      | "unsupported_url"
+      | "denied_domain"
+      | "robots"
+      | "timeout"
+      | "too_large"
+      | "too_many_redirects"
+      | "http_status",
+    /**
+     * The HTTP status, if the page responded with an error status.
+     */
+    public readonly status?: number,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * A fetched page.
+ */
+export interface FetchedPage {
+  /**
+   * The URL the content was served from, after following redirects.
+   */
+  url: string;
+  status: number;
+  contentType: string | null;
+  body: string;
+  /**
+   * The size of the body in bytes.
+   */
+  size: number;
+}
+
+type FetchConfiguration = Pick<
+  typeof ConfigurationAnnotation.State,
+  | "fetchTimeoutMs"
+  | "userAgent"
+  | "respectRobotsTxt"
+  | "maxConcurrentRequestsPerDomain"
+  | "minRequestIntervalMs"
+  | "maxResponseBytes"
+  | "maxRedirects"
+  | "allowedDomains"
+  | "deniedDomains"
+>;
+
+/**
+ * Fetch a page, following the configured politeness rules.
+ *
+ * @param url - The URL to fetch.
+ * @param configuration - The agent configuration.
+ * @returns The fetched page.
+ * @throws FetchRefusedError if the page may not be fetched or violates one of the limits.
+ */
+export async function fetchPage(
+  url: string,
+  configuration: FetchConfiguration,
+): Promise<FetchedPage> {
+  const signal = AbortSignal.timeout(configuration.fetchTimeoutMs);
+  try {
+    let current = parseUrl(url);
+    for (let redirects = 0; ; redirects += 1) {
+      // Redirects may lead to a denied domain, so every hop is checked.
+      if (!isDomainAllowed(current.toString(), configuration)) {
+        throw new FetchRefusedError(
+          `${current.host} is not an allowed source.`,
+          "denied_domain",
+        );
+      }
+      let crawlDelayMs: number | undefined;
+      if (configuration.respectRobotsTxt) {
+        const robots = await getRobotsRules(current, configuration);
+        if (robots.unavailable) {
+          throw new FetchRefusedError(
+            `${current.origin}/robots.txt could not be read, so ${current} may not be fetched for now.`,
+            "robots",
+          );
+        }
+        if (!robots.isAllowed(current.pathname + current.search)) {
+          throw new FetchRefusedError(
+            `Fetching ${current} is disallowed by ${current.origin}/robots.txt.`,
+            "robots",
+          );
+        }
+        crawlDelayMs = robots.crawlDelayMs;
+      }
+      const release = await acquireHostSlot(
+        current.host,
+        configuration,
+        crawlDelayMs,
+        signal,
+      );
+      try {
+        const response = await fetch(current, {
+          headers: { "User-Agent": configuration.userAgent },
+          redirect: "manual",
+          signal,
+        });
+        const location = response.headers.get("location");
+        if (response.status >= 300 && response.status < 400 && location) {
+          await response.body?.cancel();
+          if (redirects >= configuration.maxRedirects) {
+            throw new FetchRefusedError(
+              `Fetching ${url} exceeded the limit of ${configuration.maxRedirects} redirects.`,
+              "too_many_redirects",
+            );
+          }
+          current = parseUrl(new URL(location, current).toString());
+          continue;
+        }
+        if (!response.ok) {
+          await response.body?.cancel();
+          throw new FetchRefusedError(
+            `${current} responded with status ${response.status}.`,
+            "http_status",
+            response.status,
+          );
+        }
+        const { body, size } = await readBody(
+          response,
+          current,
+          configuration.maxResponseBytes,
+        );
+        return {
+          url: current.toString(),
+          status: response.status,
+          contentType: response.headers.get("content-type"),
+          body,
+          size,
+        };
+      } finally {
+        release();
+      }
+    }
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  } catch (e: any) {
+    if (signal.aborted && e?.name !== "FetchRefusedError") {
+      throw new FetchRefusedError(
+        `Fetching ${url} timed out after ${configuration.fetchTimeoutMs}ms.`,
+        "timeout",
+      );
+    }
+    throw e;
+  }
+}
+
+function parseUrl(url: string): URL {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new FetchRefusedError(
+      `"${url}" is not a valid URL.`,
+      "unsupported_url",
+    );
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new FetchRefusedError(
+      `Only http and https URLs can be fetched. Got: ${url}`,
+      "unsupported_url",
+    );
+  }
+  return parsed;
+}
+
+async function readBody(
+  response: Response,
+  url: URL,
+  maxBytes: number,
+): Promise<{ body: string; size: number }> {
+  const tooLarge = () =>
+    new FetchRefusedError(
+      `${url} is larger than the limit of ${maxBytes} bytes.`,
+      "too_large",
+    );
+  const declared = Number(response.headers.get("content-length"));
+  if (declared > maxBytes) {
+    await response.body?.cancel();
+    throw tooLarge();
+  }
+  if (!response.body) {
+    return { body: "", size: 0 };
+  }
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+  return { body: Buffer.concat(chunks).toString("utf8"), size };
+}
+
+/**
+ * Per-host concurrency and rate limiting.
+ */
+interface HostSlots {
+  active: number;
+  nextStart: number;
+  waiting: Array<() => void>;
+}
+
+const hosts = new Map<string, HostSlots>();
+
+async function acquireHostSlot(
+  host: string,
+  configuration: FetchConfiguration,
+  crawlDelayMs: number | undefined,
+  signal: AbortSignal,
+): Promise<() => void> {
+  let slots = hosts.get(host);
+  if (!slots) {
+    evictIdleHosts();
+    slots = { active: 0, nextStart: 0, waiting: [] };
+    hosts.set(host, slots);
+  }
+  while (slots.active >= configuration.maxConcurrentRequestsPerDomain) {
+    await abortable(signal, (done) => {
+      slots!.waiting.push(done);
+      return () => {
+        const i = slots!.waiting.indexOf(done);
+        if (i !== -1) {
+          slots!.waiting.splice(i, 1);
+        }
+      };
+    });
+  }
+  slots.active += 1;
+  const release = () => {
+    slots!.active -= 1;
+    slots!.waiting.shift()?.();
+  };
+  const interval = Math.max(
+    configuration.minRequestIntervalMs,
+    crawlDelayMs ?? 0,
+  );
+  const now = Date.now();
+  const wait = slots.nextStart - now;
+  slots.nextStart = Math.max(now, slots.nextStart) + interval;
+  if (wait > 0) {
+    try {
+      await sleep(wait, signal);
+    } catch (e) {
+      release();
+      throw e;
+    }
+  }
+  return release;
+}
+
+// Hosts without requests in flight or waiting, whose interval has passed,
+// have no state worth keeping.
+function evictIdleHosts(): void {
+  const now = Date.now();
+  for (const [host, slots] of hosts) {
+    if (!slots.active && !slots.waiting.length && slots.nextStart <= now) {
+      hosts.delete(host);
+    }
+  }
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return abortable(signal, (done) => {
+    const timer = setTimeout(done, ms);
+    return () => clearTimeout(timer);
+  });
+}
+
+/**
+ * Wait for `start` to call `done`, or reject if the signal aborts first.
+ *
+ * @param signal - The signal to abort the wait.
+ * @param start - Starts the wait, and returns a function that cancels it.
+ */
+function abortable(
+  signal: AbortSignal,
+  start: (done: () => void) => () => void,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    let cancel = () => {};
+    const onAbort = () => {
+      cancel();
+      reject(signal.reason);
+    };
+    cancel = start(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    });
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * robots.txt handling.
+ */
+interface RobotsRules {
+  isAllowed(path: string): boolean;
+  crawlDelayMs?: number;
+  /**
+   * Set if robots.txt could not be read, in which case nothing is allowed.
+   */
+  unavailable?: boolean;
+}
+
+// How long robots.txt is cached. RFC 9309 asks crawlers not to cache it for
+// more than 24 hours.
+const ROBOTS_TTL_MS = 24 * 60 * 60 * 1000;
+// How long a robots.txt that could not be read is cached, before trying again.
+const ROBOTS_FAILURE_TTL_MS = 60 * 1000;
+
+const robotsCache = new Map<
+  string,
+  { rules: Promise<RobotsRules>; expiresAt: number }
+>();
+
+async function getRobotsRules(
+  url: URL,
+  configuration: FetchConfiguration,
+): Promise<RobotsRules> {
+  const cached = robotsCache.get(url.origin);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.rules;
+  }
+  evictExpiredRobots();
+  const entry = {
+    rules: fetchRobotsRules(url, configuration),
+    // Until robots.txt has been read, concurrent fetches share the request.
+    expiresAt: Infinity,
+  };
+  robotsCache.set(url.origin, entry);
+  const rules = await entry.rules;
+  entry.expiresAt =
+    Date.now() + (rules.unavailable ? ROBOTS_FAILURE_TTL_MS : ROBOTS_TTL_MS);
+  return rules;
+}
+
+function evictExpiredRobots(): void {
+  const now = Date.now();
+  for (const [origin, { expiresAt }] of robotsCache) {
+    if (expiresAt <= now) {
+      robotsCache.delete(origin);
+    }
+  }
+}
+
+async function fetchRobotsRules(
+  url: URL,
+  configuration: FetchConfiguration,
+): Promise<RobotsRules> {
+  // A server or network error may hide restrictions, so nothing is allowed
+  // until robots.txt can be read (RFC 9309, section 2.3.1.4).
+  const unavailable = { isAllowed: () => false, unavailable: true };
+  try {
+    const response = await fetch(`${url.origin}/robots.txt`, {
+      headers: { "User-Agent": configuration.userAgent },
+      signal: AbortSignal.timeout(configuration.fetchTimeoutMs),
+    });
+    if (response.status >= 500) {
+      await response.body?.cancel();
+      return unavailable;
+    }
+    if (!response.ok) {
+      await response.body?.cancel();
+      // No robots.txt means there are no restrictions.
+      return { isAllowed: () => true };
+    }
+    return parseRobotsTxt(await response.text(), configuration.userAgent);
+  } catch {
+    return unavailable;
+  }
+}
+
+/**
+ * Parse a robots.txt file for the given User-Agent.
+ *
+ * @param content - The content of the robots.txt file.
+ * @param userAgent - The User-Agent the rules should apply to.
+ * @returns The rules of the groups naming the User-Agent's product token, or
+ *   of the "*" groups if none does. The rules of several matching groups are
+ *   merged (RFC 9309, section 2.2.1).
+ */
+export function parseRobotsTxt(
+  content: string,
+  userAgent: string,
+): RobotsRules {
+  const product = userAgent.split("/")[0].trim().toLowerCase();
+  type Group = {
+    agents: string[];
+    rules: Array<{ allow: boolean; path: string }>;
+    crawlDelayMs?: number;
+  };
+  const groups: Group[] = [];
+  let group: Group | undefined;
+  let readingAgents = false;
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator === -1) {
+      continue;
+    }
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+    if (key === "user-agent") {
+      if (!readingAgents || !group) {
+        group = { agents: [], rules: [] };
+        groups.push(group);
+      }
+      group.agents.push(value.toLowerCase());
+      readingAgents = true;
+      continue;
+    }
+    readingAgents = false;
+    if (!group) {
+      continue;
+    }
+    if ((key === "allow" || key === "disallow") && value) {
+      group.rules.push({ allow: key === "allow", path: value });
+    } else if (key === "crawl-delay" && !Number.isNaN(Number(value))) {
+      group.crawlDelayMs = Number(value) * 1000;
+    }
+  }
+
+  // Product tokens are compared case-insensitively, and must match exactly.
+  const named = groups.filter((g) => g.agents.includes(product));
+  const matching = named.length
+    ? named
+    : groups.filter((g) => g.agents.includes("*"));
+  const rules = matching
+    .flatMap((g) => g.rules)
+    .map((rule) => ({ ...rule, pattern: robotsPattern(rule.path) }));
+  const crawlDelays = matching
+    .map((g) => g.crawlDelayMs)
+    .filter((delay): delay is number => delay !== undefined);
+  return {
+    crawlDelayMs: crawlDelays.length ? Math.max(...crawlDelays) : undefined,
+    isAllowed(path: string) {
+      // The longest matching rule wins. Allow wins ties.
+      let best: { allow: boolean; length: number } | undefined;
+      for (const rule of rules) {
+        if (!rule.pattern.test(path)) {
+          continue;
+        }
+        if (
+          !best ||
+          rule.path.length > best.length ||
+          (rule.path.length === best.length && rule.allow)
+        ) {
+          best = { allow: rule.allow, length: rule.path.length };
+        }
+      }
+      return best?.allow ?? true;
+    },
+  };
+}
+
+function robotsPattern(path: string): RegExp {
+  const anchored = path.endsWith("$");
+  const source = (anchored ? path.slice(0, -1) : path)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}${anchored ? "$" : ""}`);
+}
@@ -4,24 +4,76 @@
  * Works with a chat model with tool calling support.
  */
 
-import {
-  AIMessage,
-  BaseMessage,
-  HumanMessage,
-  ToolMessage,
-} from "@langchain/core/messages";
+import { AIMessage, HumanMessage, ToolMessage } from "@langchain/core/messages";
 import { RunnableConfig } from "@langchain/core/runnables";
 import { tool } from "@langchain/core/tools";
-import { StateGraph } from "@langchain/langgraph";
+import {
+  BaseCheckpointSaver,
+  NodeInterrupt,
+  Send,
+  StateGraph,
+} from "@langchain/langgraph";
 import { z } from "zod";
 
 import {
   ConfigurationAnnotation,
   ensureConfiguration,
 } from "./configuration.js";
-import { AnyRecord, InputStateAnnotation, StateAnnotation } from "./state.js";
-import { MODEL_TOOLS, toolNode } from "./tools.js";
-import { loadChatModel } from "./utils.js";
+import { formatSourceTrust, sourceTrust } from "./domains.js";
+import {
+  discoverySchema,
+  distinctNames,
+  entitySchema,
+  mergeEntities,
+  nameProperty,
+} from "./entities.js";
+import {
+  compactHistory,
+  recentMessages,
+  withResearchNotes,
+} from "./history.js";
+import {
+  BUDGET_EXHAUSTED_PROMPT,
+  CORPUS_TOOLS_PROMPT,
+  ENTITY_TOPIC_PROMPT,
+  FIELD_PROGRESS_PROMPT,
+  REVIEW_FEEDBACK_PROMPT,
+  SOURCE_TRUST_PROMPT,
+} from "./prompts.js";
+import { emitProgress } from "./progress.js";
+import { attributeProvenance, collectEvidence } from "./provenance.js";
+import {
+  AnyRecord,
+  EntityResult,
+  FieldScore,
+  FieldStatus,
+  InputStateAnnotation,
+  mergeInfo,
+  StateAnnotation,
+  TerminationReason,
+} from "./state.js";
+import { callModelWithFallbacks } from "./retry.js";
+import { normalizeSchema } from "./schema.js";
+import {
+  currentSeedInfo,
+  diffInfo,
+  lockedFields,
+  seedFieldStatus,
+} from "./seed.js";
+import { initializeTools, toolNode } from "./tools.js";
+import {
+  addUsage,
+  emptyUsage,
+  isBudgetExhausted,
+  splitBudget,
+  usageFromMessage,
+} from "./usage.js";
+import {
+  formatViolations,
+  isEmpty,
+  scoreInfo,
+  validateInfo,
+} from "./validation.js";
 
 /**
  * Calls the primary Language Model (LLM) to decide on the next research action.
@@ -33,12 +85,24 @@ import { loadChatModel } from "./utils.js";
  * 4. Invokes the LLM and processes its response.
  * 5. Handles the LLM's decision to either continue research or submit final info.
  *
+ * Submissions are merged into the info gathered in earlier loops. Fields the
+ * reflection step accepted are kept as-is, and the LLM is told which fields
+ * still need work.
+ *
+ * Once the token or cost budget has run out, the LLM is only given the 'Info' tool
+ * and must submit the best info it has. That submission is accepted as final.
+ *
  * @param state - The current state of the research process.
  * @param config - Optional configuration for the runnable.
  * @returns A Promise resolving to an object containing:
  *   - messages: An array of BaseMessage objects representing the LLM's response.
- *   - info: An optional AnyRecord containing the extracted information if the LLM decided to submit final info.
+ *   - info: An optional AnyRecord containing the extracted information if the LLM decided to submit final info
+ *     and it conforms to the extraction schema.
  *   - loopStep: A number indicating the current step in the research loop.
+ *   - infoToolCalls: 1 if the LLM submitted info, counting towards maxInfoToolCalls.
+ *   - bestInfo: The submitted info with its completeness score.
+ *   - tokenUsage: The token usage of the LLM call.
+ *   - budgetExhausted: Set if the budget has run out and this was the final submission.
  */
 
 async function callAgentModel(
@@ -46,6 +110,14 @@ async function callAgentModel(
   config: RunnableConfig,
 ): Promise<typeof StateAnnotation.Update> {
   const configuration = ensureConfiguration(config);
+  await emitProgress(
+    {
+      type: "loop",
+      loopStep: state.loopStep + 1,
+      maxLoops: configuration.maxLoops,
+    },
+    config,
+  );
   // First, define the info tool. This uses the user-provided
   // json schema to define the research targets
   // We pass an empty function because we will not actually invoke this tool.
@@ -55,33 +127,58 @@ async function callAgentModel(
     description: "Call this when you have gathered all the relevant info",
     schema: state.extractionSchema,
   });
-  // Next, load the model
-  const rawModel = await loadChatModel(configuration.model);
-  if (!rawModel.bindTools) {
-    throw new Error("Chat model does not support tool binding");
-  }
-  const model = rawModel.bindTools([...MODEL_TOOLS, infoTool], {
-    tool_choice: "any",
-  });
+  const budgetExhausted = isBudgetExhausted(state.tokenUsage, configuration);
+
+  // Condense older search and scrape results into the research notes,
+  // if the history has grown too long.
+  const compaction = await compactHistory(state, configuration);
+  const history = compaction ? { ...state, ...compaction } : state;
 
   // Format the schema into the configurable system prompt
-  const p = configuration.prompt
-    .replace("{info}", JSON.stringify(state.extractionSchema, null, 2))
-    .replace("{topic}", state.topic);
-  const messages = [{ role: "user", content: p }, ...state.messages];
+  const p = formatPrompt(state, configuration);
+  const messages = [
+    { role: "user", content: withResearchNotes(p, history.researchNotes) },
+    ...recentMessages(history),
+  ];
+  if (budgetExhausted) {
+    messages.push({ role: "user", content: BUDGET_EXHAUSTED_PROMPT });
+  } else if (Object.keys(state.fieldStatus).length) {
+    messages.push({
+      role: "user",
+      content: formatFieldProgress(state.info, state.fieldStatus),
+    });
+  }
 
-  // Next, we'll call the model.
-  const response: AIMessage = await model.invoke(messages);
+  // Next, we'll call the model. Transient failures are retried,
+  // then the fallback models are tried in order.
+  const { response, modelName } = await callModelWithFallbacks(
+    configuration.agentModel,
+    configuration.agentModelParams,
+    configuration,
+    async (rawModel, modelName) => {
+      if (!rawModel.bindTools) {
+        throw new Error("Chat model does not support tool binding");
+      }
+      const model = budgetExhausted
+        ? rawModel.bindTools([infoTool], { tool_choice: "Info" })
+        : rawModel.bindTools([...initializeTools(state, config), infoTool], {
+            tool_choice: "any",
+          });
+      const response: AIMessage = await model.invoke(messages);
+      return { response, modelName };
+    },
+  );
   const responseMessages = [response];
 
   // If the model has collected enough information to fill uot
   // the provided schema, great! It will call the "Info" tool
   // We've decided to track this as a separate state variable
   let info;
+  let bestInfo;
+  let infoToolCalls = 0;
   if ((response?.tool_calls && response.tool_calls?.length) || 0) {
     for (const tool_call of response.tool_calls || []) {
       if (tool_call.name === "Info") {
-        info = tool_call.args;
         // If info was called, the agent is submitting a response.
         // (it's not actually a function to call, it's a schema to extract)
         // To ensure that the graph doesn'tend up in an invalid state
@@ -90,6 +187,59 @@ async function callAgentModel(
         response.tool_calls = response.tool_calls?.filter(
           (tool_call) => tool_call.name === "Info",
         );
+        // Fill in what earlier loops found, and keep accepted fields as-is.
+        const submission = keepAcceptedFields(
+          mergeInfo(state.info, tool_call.args),
+          state.info,
+          state.fieldStatus,
+        );
+        // Check the submission against the extraction schema before
+        // we send it to the reflection step. Invalid submissions are
+        // returned to the agent so it can fix them.
+        const violations = validateInfo(state.extractionSchema, submission);
+        await emitProgress(
+          {
+            type: "info",
+            fields: Object.keys(submission).filter(
+              (field) => !isEmpty(submission[field]),
+            ),
+            violations: violations.length,
+          },
+          config,
+        );
+        infoToolCalls = 1;
+        bestInfo = {
+          info: submission,
+          score: scoreInfo(state.extractionSchema, submission, violations),
+        };
+        if (budgetExhausted) {
+          // There is no budget left to fix or review the submission,
+          // so we accept what the agent has.
+          info = submission;
+          responseMessages.push(
+            new ToolMessage({
+              tool_call_id: tool_call.id ?? "",
+              content: violations.length
+                ? `Research budget exhausted. Accepted the info without review.\n${formatViolations(violations)}`
+                : "Research budget exhausted. Accepted the info without review.",
+              name: "Info",
+              artifact: violations,
+              status: "success",
+            }),
+          );
+        } else if (violations.length) {
+          responseMessages.push(
+            new ToolMessage({
+              tool_call_id: tool_call.id ?? "",
+              content: formatViolations(violations),
+              name: "Info",
+              artifact: violations,
+              status: "error",
+            }),
+          );
+        } else {
+          info = submission;
+        }
         break;
       }
     }
@@ -106,9 +256,74 @@ async function callAgentModel(
     // This increments the step counter.
     // We configure a max step count to avoid infinite research loops
     loopStep: 1,
+    infoToolCalls,
+    bestInfo,
+    tokenUsage: addUsage(
+      usageFromMessage(response, modelName, configuration),
+      compaction?.tokenUsage ?? emptyUsage(),
+    ),
+    budgetExhausted: budgetExhausted || undefined,
+    ...(compaction && {
+      researchNotes: compaction.researchNotes,
+      compactedMessages: compaction.compactedMessages,
+    }),
   };
 }
 
+/**
+ * Restore the fields the reflection step accepted, in case the agent changed them.
+ */
+function keepAcceptedFields(
+  submission: AnyRecord,
+  current: AnyRecord | undefined,
+  fieldStatus: Record<string, FieldStatus>,
+): AnyRecord {
+  const kept = { ...submission };
+  for (const [field, { status }] of Object.entries(fieldStatus)) {
+    if (status === "accepted" && current?.[field] !== undefined) {
+      kept[field] = current[field];
+    }
+  }
+  return kept;
+}
+
+/**
+ * Template the schema and topic into the configured prompt, and describe the
+ * corpus tools if a corpus is configured.
+ */
+function formatPrompt(
+  state: typeof StateAnnotation.State,
+  configuration: typeof ConfigurationAnnotation.State,
+): string {
+  const p = configuration.prompt
+    .replace("{info}", JSON.stringify(state.extractionSchema, null, 2))
+    .replace("{topic}", state.topic);
+  return configuration.corpusDir ? `${p}\n\n${CORPUS_TOOLS_PROMPT}` : p;
+}
+
+/**
+ * Tell the agent which fields were accepted and which still need work.
+ */
+function formatFieldProgress(
+  info: AnyRecord | undefined,
+  fieldStatus: Record<string, FieldStatus>,
+): string {
+  const entries = Object.entries(fieldStatus);
+  const accepted = entries
+    .filter(([, { status }]) => status === "accepted")
+    .map(([field]) => `- ${field}: ${JSON.stringify(info?.[field])}`);
+  const open = entries
+    .filter(([, { status }]) => status === "needs_work")
+    .map(
+      ([field, { instructions }]) =>
+        `- ${field}${instructions ? `: ${instructions}` : ""}`,
+    );
+  return FIELD_PROGRESS_PROMPT.replace(
+    "{accepted}",
+    accepted.join("\n") || "(none)",
+  ).replace("{open}", open.join("\n") || "(none)");
+}
+
 /**
  * Validate whether the current extracted info is satisfactory and complete.
  */
@@ -129,6 +344,42 @@ const InfoIsSatisfactory = z.object({
     .describe(
       "If the result is not satisfactory, provide clear and specific instructions on what needs to be improved or added to make the information satisfactory. This should include details on missing information, areas that need more depth, or specific aspects to focus on in further research.",
     ),
+  field_feedback: z
+    .array(
+      z.object({
+        field: z
+          .string()
+          .describe(
+            "The name of a top-level field, or an item of a top-level array field written as field[index] (zero-based).",
+          ),
+        status: z
+          .enum(["accepted", "needs_work"])
+          .describe(
+            "Whether the field's value is correct and complete (accepted), or needs more research (needs_work).",
+          ),
+        confidence: z
+          .number()
+          .describe(
+            "How confident you are that the value is correct, from 0 (a guess) to 1 (certain).",
+          ),
+        justification: z
+          .string()
+          .describe("One sentence explaining the confidence score."),
+        supported_by_evidence: z
+          .boolean()
+          .describe(
+            "Whether the value is supported by the search results or scraped websites in the conversation, rather than guessed.",
+          ),
+        instructions: z
+          .string()
+          .optional()
+          .describe("If the field needs work, what should be researched."),
+      }),
+    )
+    .optional()
+    .describe(
+      "A verdict for each top-level field of the info, and for each item of top-level array fields. Accepted fields will not be researched again.",
+    ),
 });
 
 /**
@@ -147,11 +398,13 @@ const InfoIsSatisfactory = z.object({
  * @returns A Promise resolving to an object containing either:
  *   - messages: An array of BaseMessage objects if the info is not satisfactory.
  *   - info: An AnyRecord containing the extracted information if it is satisfactory.
+ *   - fieldStatus: Which fields were accepted and which need more work.
+ *   - fieldScores: The confidence in each field. Fields below minFieldConfidence make the info unsatisfactory.
  */
 async function reflect(
   state: typeof StateAnnotation.State,
   config: RunnableConfig,
-): Promise<{ messages: BaseMessage[] } | { info: AnyRecord }> {
+): Promise<typeof StateAnnotation.Update> {
   const configuration = ensureConfiguration(config);
   const presumedInfo = state.info; // The current extracted result
   const lm = state.messages[state.messages.length - 1];
@@ -162,16 +415,11 @@ async function reflect(
   }
   const lastMessage = lm as AIMessage;
 
-  // Load the configured model & provide the reflection/critique schema
-  const rawModel = await loadChatModel(configuration.model);
-  const boundModel = rawModel.withStructuredOutput(InfoIsSatisfactory);
   // Template in the conversation history:
-  const p = configuration.prompt
-    .replace("{info}", JSON.stringify(state.extractionSchema, null, 2))
-    .replace("{topic}", state.topic);
+  const p = formatPrompt(state, configuration);
   const messages = [
-    { role: "user", content: p },
-    ...state.messages.slice(0, -1),
+    { role: "user", content: withResearchNotes(p, state.researchNotes) },
+    ...recentMessages(state).slice(0, -1),
   ];
 
   const checker_prompt = `I am thinking of calling the info tool with the info below. \
@@ -184,12 +432,102 @@ If you don't think it is good, you should be very specific about what could be i
     "{presumed_info}",
     JSON.stringify(presumedInfo ?? {}, null, 2),
   );
-  messages.push({ role: "user", content: p1 });
+  // Tell the critique how far the sources behind the info can be trusted.
+  const sources = sourceTrust(collectEvidence(state.messages), configuration);
+  messages.push({
+    role: "user",
+    content: sources.length
+      ? `${p1}\n\n${SOURCE_TRUST_PROMPT.replace("{sources}", formatSourceTrust(sources))}`
+      : p1,
+  });
 
-  // Call the model
-  const response = await boundModel.invoke(messages);
-  if (response.is_satisfactory && presumedInfo) {
+  // Call the configured model with the reflection/critique schema,
+  // or a fallback model if it keeps failing.
+  const {
+    raw,
+    parsed: response,
+    modelName,
+  } = await callModelWithFallbacks(
+    configuration.reflectionModel,
+    configuration.reflectionModelParams,
+    configuration,
+    async (rawModel, modelName) => {
+      const boundModel = rawModel.withStructuredOutput(InfoIsSatisfactory, {
+        includeRaw: true,
+      });
+      return { ...(await boundModel.invoke(messages)), modelName };
+    },
+  );
+  if (!response) {
+    throw new Error(
+      `${reflect.name} expected the model to return a verdict. Got: ${JSON.stringify((raw as AIMessage).content)}`,
+    );
+  }
+  const tokenUsage = usageFromMessage(
+    raw as AIMessage,
+    modelName,
+    configuration,
+  );
+  // Only keep verdicts for fields that are actually part of the schema.
+  const properties = state.extractionSchema.properties ?? {};
+  // Seed values kept under the "fill_missing" policy stay accepted.
+  const locked = lockedFields(state.seed, state.fieldPolicies);
+  const feedback = (response.field_feedback ?? []).filter(
+    ({ field }) =>
+      topLevelField(field) in properties && !locked.has(topLevelField(field)),
+  );
+  const fieldScores: Record<string, FieldScore> = Object.fromEntries(
+    feedback.map(
+      ({ field, confidence, justification, supported_by_evidence }) => [
+        field,
+        {
+          confidence,
+          justification,
+          supportedByEvidence: supported_by_evidence,
+        },
+      ],
+    ),
+  );
+  const fieldStatus: Record<string, FieldStatus> = Object.fromEntries(
+    feedback
+      .filter(({ field }) => field === topLevelField(field))
+      .map(({ field, status, instructions }) => [
+        field,
+        { status, instructions },
+      ]),
+  );
+  // Fields scored below the confidence threshold need more research,
+  // even if the result as a whole looks good.
+  const uncertain = feedback.filter(
+    ({ confidence }) => confidence < configuration.minFieldConfidence,
+  );
+  for (const { field, justification } of uncertain) {
+    fieldStatus[topLevelField(field)] = {
+      status: "needs_work",
+      instructions: `Low confidence in ${field}: ${justification}`,
+    };
+  }
+  const satisfactory =
+    response.is_satisfactory && !!presumedInfo && !uncertain.length;
+  const fields = Object.entries(fieldStatus);
+  await emitProgress(
+    {
+      type: "reflection",
+      satisfactory,
+      acceptedFields: fields
+        .filter(([, { status }]) => status === "accepted")
+        .map(([field]) => field),
+      openFields: fields
+        .filter(([, { status }]) => status === "needs_work")
+        .map(([field]) => field),
+    },
+    config,
+  );
+  if (satisfactory) {
     return {
+      tokenUsage,
+      fieldStatus,
+      fieldScores,
       info: presumedInfo,
       messages: [
         new ToolMessage({
@@ -202,11 +540,21 @@ If you don't think it is good, you should be very specific about what could be i
       ],
     };
   } else {
+    const instructions = [
+      response.improvement_instructions,
+      ...uncertain.map(
+        ({ field, confidence, justification }) =>
+          `The value of ${field} is not certain enough (confidence ${confidence}): ${justification}`,
+      ),
+    ].filter(Boolean);
     return {
+      tokenUsage,
+      fieldStatus,
+      fieldScores,
       messages: [
         new ToolMessage({
           tool_call_id: lastMessage.tool_calls?.[0]?.id || "",
-          content: `Unsatisfactory response:\n${response.improvement_instructions}`,
+          content: `Unsatisfactory response:\n${instructions.join("\n")}`,
           name: "Info",
           artifact: response,
           status: "error",
@@ -216,22 +564,47 @@ If you don't think it is good, you should be very specific about what could be i
   }
 }
 
+/**
+ * Strip the array index from a field path, e.g. "providers[2]" -> "providers".
+ */
+function topLevelField(field: string): string {
+  return field.replace(/\[\d+\]$/, "");
+}
+
 /**
  * Determines the next step in the research process based on the agent's last action.
  *
  * @param state - The current state of the research process.
  * @returns "reflect" if the agent has called the "Info" tool to submit findings,
- *          "tools" if the agent has called any other tool or no tool at all.
+ *          "tools" if the agent has called any other tool or no tool at all,
+ *          "callAgentModel" if the agent was asked to correct its last response
+ *          (e.g. the submitted info did not match the extraction schema),
+ *          "finalize" if the agent made its final submission after the budget ran out,
+ *          if it has no loops or Info submissions left to correct its response,
+ *          or if it used its last loop on another tool call.
  */
 function routeAfterAgent(
   state: typeof StateAnnotation.State,
-): "callAgentModel" | "reflect" | "tools" | "__end__" {
+  config?: RunnableConfig,
+): "callAgentModel" | "reflect" | "tools" | "finalize" {
+  const configuration = ensureConfiguration(config);
   const lastMessage: AIMessage = state.messages[state.messages.length - 1];
 
+  // The budget has run out and the agent made its final submission.
+  if (state.budgetExhausted) {
+    return "finalize";
+  }
+
   // If for some reason the last message is not an AIMessage
   // (if you've modified this template and broken one of the assumptions)
   // ensure the system doesn't crash but instead tries to recover by calling the agent model again.
   if (lastMessage._getType() !== "ai") {
+    if (
+      state.loopStep >= configuration.maxLoops ||
+      state.infoToolCalls >= configuration.maxInfoToolCalls
+    ) {
+      return "finalize";
+    }
     return "callAgentModel";
   }
 
@@ -240,6 +613,12 @@ function routeAfterAgent(
     return "reflect";
   }
 
+  // Every agent call counts as a loop, so an agent that keeps searching
+  // without submitting still stops, with the best submission it made.
+  if (state.loopStep >= configuration.maxLoops) {
+    return "finalize";
+  }
+
   // The last message is a tool call that is not "Info" (extraction output)
   return "tools";
 }
@@ -252,33 +631,284 @@ function routeAfterAgent(
  *
  * @param state - The current state of the research process.
  * @param config - The configuration for the research process.
- * @returns "__end__" if the research should end, "callAgentModel" if it should continue.
+ * @returns "finalize" if the research should end, "callAgentModel" if it should continue,
+ *          "humanReview" if the info was accepted and review mode is enabled.
  */
 function routeAfterChecker(
   state: typeof StateAnnotation.State,
   config?: RunnableConfig,
-): "__end__" | "callAgentModel" {
+): "finalize" | "callAgentModel" | "humanReview" {
   const configuration = ensureConfiguration(config);
   const lastMessage = state.messages[state.messages.length - 1];
 
-  if (state.loopStep < configuration.maxLoops) {
-    if (!state.info) {
-      return "callAgentModel";
-    }
-    if (lastMessage._getType() !== "tool") {
-      throw new Error(
-        `routeAfterChecker expected a tool message. Received: ${lastMessage._getType()}.`,
+  if (isSatisfied(state)) {
+    // It's great!
+    return configuration.reviewMode ? "humanReview" : "finalize";
+  }
+  if (
+    state.loopStep >= configuration.maxLoops ||
+    state.infoToolCalls >= configuration.maxInfoToolCalls
+  ) {
+    return "finalize";
+  }
+  if (state.info && lastMessage._getType() !== "tool") {
+    throw new Error(
+      `routeAfterChecker expected a tool message. Received: ${lastMessage._getType()}.`,
+    );
+  }
+  // Research deemed unsatisfactory
+  return "callAgentModel";
+}
+
+/**
+ * Asks a person to review the info the reflection step accepted.
+ *
+ * The first time this node runs, it interrupts the graph. The reviewer inspects
+ * the state, sets `review` with `graph.updateState` and resumes the graph by
+ * invoking it with `null` input on the same thread. The node then runs again
+ * and applies the review:
+ * - accept: the info is final.
+ * - edit: the edited fields replace those of the info and are marked as
+ *   accepted. Fields set to null are cleared. If the edited info does not match
+ *   the extraction schema, the graph is interrupted again for another review.
+ * - feedback: every field is reopened and the feedback is sent to the agent.
+ *
+ * @param state - The current state of the research process.
+ * @returns A Promise resolving to an object containing:
+ *   - review: Cleared, so the next review starts fresh.
+ *   - info: The edited fields, if the reviewer edited the info.
+ *   - fieldStatus: The edited fields as accepted, or every field as needing work after feedback.
+ *   - messages: The reviewer's feedback, if any.
+ */
+async function humanReview(
+  state: typeof StateAnnotation.State,
+): Promise<typeof StateAnnotation.Update> {
+  const { review } = state;
+  if (!review) {
+    throw new NodeInterrupt(
+      `Review the info for "${state.topic}". Resume with a review that accepts it, edits it or gives feedback.`,
+    );
+  }
+  switch (review.action) {
+    case "accept":
+      return { review: undefined };
+    case "edit": {
+      // Set outside the merge, so that the reviewer can clear fields.
+      const info = Object.fromEntries(
+        Object.entries({ ...state.info, ...review.info }).filter(
+          ([, value]) => value !== null && value !== undefined,
+        ),
       );
+      const violations = validateInfo(state.extractionSchema, info);
+      if (violations.length) {
+        throw new NodeInterrupt(
+          `The edited info for "${state.topic}" does not match the extraction schema:\n${violations
+            .map((v) => `- ${v.path}: ${v.message}`)
+            .join("\n")}\nResume with another review.`,
+        );
+      }
+      return {
+        review: undefined,
+        info: { $replace: info },
+        fieldStatus: Object.fromEntries(
+          Object.keys(review.info).map((field) => [
+            field,
+            { status: "accepted" },
+          ]),
+        ),
+      };
     }
-    if ((lastMessage as ToolMessage).status === "error") {
-      // Research deemed unsatisfactory
-      return "callAgentModel";
+    case "feedback": {
+      // The reviewer may disagree with fields the reflection step accepted,
+      // so nothing stays locked.
+      const fields = Object.keys(state.extractionSchema.properties ?? {});
+      return {
+        review: undefined,
+        fieldStatus: Object.fromEntries(
+          fields.map((field) => [
+            field,
+            { status: "needs_work", instructions: review.feedback },
+          ]),
+        ),
+        messages: [
+          new HumanMessage(
+            REVIEW_FEEDBACK_PROMPT.replace("{feedback}", review.feedback),
+          ),
+        ],
+      };
     }
-    // It's great!
-    return "__end__";
+    default:
+      throw new Error(
+        `Unknown review action: ${(review as { action: string }).action}`,
+      );
+  }
+}
+
+/**
+ * Schedules the next node after a review.
+ *
+ * @param state - The current state of the research process.
+ * @returns "callAgentModel" if the reviewer gave feedback, "finalize" otherwise.
+ */
+function routeAfterReview(
+  state: typeof StateAnnotation.State,
+): "callAgentModel" | "finalize" {
+  const lastMessage = state.messages[state.messages.length - 1];
+  return lastMessage._getType() === "human" ? "callAgentModel" : "finalize";
+}
+
+/**
+ * Checks whether the reflection step accepted the agent's last submission.
+ */
+function isSatisfied(state: typeof StateAnnotation.State): boolean {
+  const lastMessage = state.messages[state.messages.length - 1];
+  return (
+    !!state.info &&
+    lastMessage._getType() === "tool" &&
+    (lastMessage as ToolMessage).name === "Info" &&
+    (lastMessage as ToolMessage).status === "success"
+  );
+}
+
+/**
+ * Records why the research ended and settles on the final info.
+ *
+ * If the info was accepted, it is kept as-is. Otherwise the most complete
+ * submission seen so far is returned, so that every run ends with a best-effort
+ * result, even if the final call under the budget did not submit.
+ *
+ * @param state - The current state of the research process.
+ * @param config - The configuration for the research process.
+ * @returns A Promise resolving to an object containing:
+ *   - terminationReason: Why the research ended.
+ *   - info: The final info.
+ *   - provenance: The sources supporting each extracted value, if provenance tracking is enabled.
+ *   - changes: The fields that differ from the seed, if the graph was invoked with info.
+ *   - finishedAt: When the research finished.
+ */
+async function finalize(
+  state: typeof StateAnnotation.State,
+  config: RunnableConfig,
+): Promise<typeof StateAnnotation.Update> {
+  const configuration = ensureConfiguration(config);
+  let terminationReason: TerminationReason;
+  if (state.budgetExhausted) {
+    terminationReason = "budget";
+  } else if (isSatisfied(state)) {
+    terminationReason = "satisfied";
+  } else if (state.infoToolCalls >= configuration.maxInfoToolCalls) {
+    terminationReason = "max_info_calls";
   } else {
-    return "__end__";
+    terminationReason = "max_loops";
+  }
+  let update: AnyRecord | undefined;
+  if (terminationReason !== "satisfied" && state.bestInfo) {
+    // Info only holds schema-valid submissions, or nothing if the final
+    // submission under the budget was never made. Fall back to the best
+    // submission if it is more complete.
+    const current = state.info
+      ? scoreInfo(
+          state.extractionSchema,
+          state.info,
+          validateInfo(state.extractionSchema, state.info),
+        )
+      : -1;
+    if (state.bestInfo.score > current) {
+      update = state.bestInfo.info;
+    }
+  }
+  const info = update ? mergeInfo(state.info, update) : state.info;
+  return {
+    terminationReason,
+    info: update,
+    provenance:
+      state.trackProvenance && info
+        ? attributeProvenance(info, collectEvidence(state.messages))
+        : undefined,
+    changes: state.seed ? diffInfo(state.seed, info) : undefined,
+    finishedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Prepares the research of an existing record.
+ *
+ * If the graph was invoked with info, it is kept as the seed, and the field
+ * policies decide which fields the agent researches. Seed values kept under
+ * "fill_missing" are accepted up front, so the agent only works on the rest.
+ * Out-of-date "overwrite" values are left out of the info.
+ *
+ * @param state - The current state of the research process.
+ * @returns A Promise resolving to an object containing:
+ *   - startedAt: When the research started.
+ *   - seed: The info the graph was invoked with.
+ *   - info: The seed without its out-of-date values.
+ *   - fieldStatus: Which fields are kept and which need research.
+ */
+async function seedFields(
+  state: typeof StateAnnotation.State,
+): Promise<typeof StateAnnotation.Update> {
+  const startedAt = new Date().toISOString();
+  if (!state.info || !Object.keys(state.info).length) {
+    return { startedAt };
+  }
+  return {
+    startedAt,
+    seed: state.info,
+    info: { $replace: currentSeedInfo(state.info, state.fieldPolicies) },
+    fieldStatus: seedFieldStatus(
+      state.extractionSchema,
+      state.info,
+      state.fieldPolicies,
+    ),
+  };
+}
+
+// The key under which LangGraph passes the graph's checkpointer to its nodes.
+const CHECKPOINTER_KEY = "__pregel_checkpointer";
+
+/**
+ * Checks the run before any research is done.
+ *
+ * Zod schemas are converted to JSON Schema, so the rest of the graph only
+ * deals with JSON Schema. Review mode is refused on a graph without a
+ * checkpointer, since the interrupted run could never be resumed.
+ *
+ * @param state - The current state of the research process.
+ * @param config - The configuration for the research process.
+ * @returns A Promise resolving to an object containing:
+ *   - extractionSchema: The normalized schema.
+ * @throws SchemaError if the schema cannot be used.
+ * @throws If review mode is set on a graph without a checkpointer.
+ */
+async function checkSchema(
+  state: typeof StateAnnotation.State,
+  config?: RunnableConfig,
+): Promise<typeof StateAnnotation.Update> {
+  const configuration = ensureConfiguration(config);
+  // Review mode does not apply in fan-out mode.
+  if (
+    configuration.reviewMode &&
+    !configuration.fanOutField &&
+    !config?.configurable?.[CHECKPOINTER_KEY]
+  ) {
+    throw new Error(
+      "reviewMode needs a graph with a checkpointer to resume the run after the review. Compile one with createGraph({ checkpointer }) and invoke it with a thread_id.",
+    );
   }
+  return { extractionSchema: normalizeSchema(state.extractionSchema) };
+}
+
+/**
+ * Starts the research loop, or entity discovery in fan-out mode.
+ */
+function routeStart(
+  _state: typeof StateAnnotation.State,
+  config?: RunnableConfig,
+): "seedFields" | "discoverEntities" {
+  return ensureConfiguration(config).fanOutField
+    ? "discoverEntities"
+    : "seedFields";
 }
 
 // Create the graph
@@ -289,13 +919,269 @@ const workflow = new StateGraph(
   },
   ConfigurationAnnotation,
 )
+  .addNode("checkSchema", checkSchema)
+  .addNode("seedFields", seedFields)
   .addNode("callAgentModel", callAgentModel)
   .addNode("reflect", reflect)
   .addNode("tools", toolNode)
-  .addEdge("__start__", "callAgentModel")
+  .addNode("humanReview", humanReview)
+  .addNode("finalize", finalize)
+  .addNode("discoverEntities", discoverEntities)
+  .addNode("researchEntity", researchEntity)
+  .addNode("finalizeEntities", finalizeEntities)
+  .addEdge("__start__", "checkSchema")
+  .addConditionalEdges("checkSchema", routeStart)
+  .addEdge("seedFields", "callAgentModel")
   .addConditionalEdges("callAgentModel", routeAfterAgent)
   .addEdge("tools", "callAgentModel")
-  .addConditionalEdges("reflect", routeAfterChecker);
+  .addConditionalEdges("reflect", routeAfterChecker)
+  .addConditionalEdges("humanReview", routeAfterReview)
+  .addEdge("finalize", "__end__")
+  .addConditionalEdges("discoverEntities", routeAfterDiscovery, [
+    "researchEntity",
+    "finalizeEntities",
+  ])
+  .addEdge("researchEntity", "finalizeEntities")
+  .addEdge("finalizeEntities", "__end__");
+
+// Discovery and each entity in fan-out mode are researched in separate runs of the graph.
+const researchLoop = workflow.compile();
+
+/**
+ * Compile the research graph.
+ *
+ * @param options.checkpointer - Saves the state of each thread, so the graph
+ *   can be resumed after it is interrupted for review. Required for
+ *   `reviewMode`. Each invocation then needs a `thread_id` in its configurable.
+ * @returns The compiled graph.
+ */
+export function createGraph(
+  options: { checkpointer?: BaseCheckpointSaver } = {},
+) {
+  const compiled = workflow.compile({ checkpointer: options.checkpointer });
+  compiled.name = "ResearchTopic";
+  return compiled;
+}
+
+export const graph = createGraph();
+
+// Fan-out mode. These nodes start runs of the research loop compiled above.
+
+/**
+ * Discovers the entities to research in fan-out mode.
+ *
+ * Runs the research loop with the fan-out field reduced to a list of entity
+ * names. The other fields of the extraction schema are researched as usual.
+ *
+ * @param state - The current state of the research process.
+ * @param config - The configuration for the research process.
+ * @returns A Promise resolving to an object containing:
+ *   - entities: The distinct entity names, at most maxEntities.
+ *   - info: The other fields of the info.
+ *   - provenance: The sources of the other fields, if provenance tracking is enabled.
+ *   - terminationReason: Why the discovery run ended.
+ *   - messages: The messages of the discovery run, for the run report.
+ *   - loopStep: The number of loops of the discovery run.
+ *   - tokenUsage: The token usage of the discovery run.
+ *   - startedAt: When the research started.
+ */
+async function discoverEntities(
+  state: typeof StateAnnotation.State,
+  config: RunnableConfig,
+): Promise<typeof StateAnnotation.Update> {
+  const startedAt = new Date().toISOString();
+  const configuration = ensureConfiguration(config);
+  const field = configuration.fanOutField as string;
+  // Fail early if the field cannot be fanned out over.
+  entitySchema(state.extractionSchema, field);
+  const result = await researchLoop.invoke(
+    {
+      topic: state.topic,
+      extractionSchema: discoverySchema(
+        state.extractionSchema,
+        field,
+        configuration.maxEntities,
+      ),
+      info: state.info,
+      fieldPolicies: state.fieldPolicies,
+      trackProvenance: state.trackProvenance,
+    },
+    subRunConfig(config, {}),
+  );
+  const { [field]: names, ...info } = result.info ?? {};
+  const provenance = { ...result.provenance };
+  delete provenance[field];
+  return {
+    entities: distinctNames(
+      Array.isArray(names) ? names : [],
+      configuration.maxEntities,
+    ),
+    info,
+    provenance: state.trackProvenance ? provenance : undefined,
+    terminationReason: result.terminationReason,
+    messages: result.messages,
+    loopStep: result.loopStep,
+    tokenUsage: result.tokenUsage,
+    startedAt,
+  };
+}
+
+/**
+ * Sends each discovered entity to its own research run.
+ */
+function routeAfterDiscovery(
+  state: typeof StateAnnotation.State,
+): Send[] | "finalizeEntities" {
+  if (!state.entities?.length) {
+    return "finalizeEntities";
+  }
+  return state.entities.map(
+    (entity) => new Send("researchEntity", { ...state, entity }),
+  );
+}
+
+/**
+ * Researches a single entity in fan-out mode.
+ *
+ * Runs the research loop against the schema of a single item of the fan-out
+ * field, seeded with the entity's name. Errors are recorded rather than
+ * thrown, so one failing entity does not fail the others.
+ *
+ * @param state - The state of the research process, with the entity to research.
+ * @param config - The configuration for the research process.
+ * @returns A Promise resolving to an object containing:
+ *   - entityResults: The outcome of the entity's run.
+ *   - tokenUsage: The token usage of the entity's run.
+ */
+async function researchEntity(
+  state: typeof StateAnnotation.State & { entity: string },
+  config: RunnableConfig,
+): Promise<typeof StateAnnotation.Update> {
+  const configuration = ensureConfiguration(config);
+  const { entity } = state;
+  const schema = entitySchema(
+    state.extractionSchema,
+    configuration.fanOutField as string,
+  );
+  const name = nameProperty(schema);
+  try {
+    const result = await researchLoop.invoke(
+      {
+        topic: ENTITY_TOPIC_PROMPT.replace("{entity}", entity).replace(
+          "{topic}",
+          state.topic,
+        ),
+        extractionSchema: schema,
+        // The discovered name is a starting point. The agent may correct it.
+        info: name ? { [name]: entity } : undefined,
+        fieldPolicies: name ? { [name]: "verify" } : undefined,
+        trackProvenance: state.trackProvenance,
+      },
+      subRunConfig(
+        config,
+        splitBudget(
+          state.tokenUsage,
+          configuration,
+          state.entities?.length ?? 1,
+        ),
+      ),
+    );
+    return {
+      entityResults: [
+        {
+          entity,
+          info: result.info,
+          provenance: result.provenance,
+          terminationReason: result.terminationReason,
+          loopStep: result.loopStep,
+          messages: result.messages,
+        },
+      ],
+      tokenUsage: result.tokenUsage,
+    };
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  } catch (e: any) {
+    return {
+      entityResults: [{ entity, error: e?.message ?? String(e) }],
+    };
+  }
+}
 
-export const graph = workflow.compile();
-graph.name = "ResearchTopic";
+/**
+ * Merges the researched entities into the info.
+ *
+ * Entities are kept in discovery order, and entities that turn out to be the
+ * same are merged into a single item. The run is satisfied only if discovery
+ * and every entity's run were satisfied. Entities whose run failed end the
+ * run with "entity_error", unless the budget ran out.
+ *
+ * @param state - The current state of the research process.
+ * @param config - The configuration for the research process.
+ * @returns A Promise resolving to an object containing:
+ *   - info: The fan-out field, with one item per distinct entity.
+ *   - provenance: The sources of each item, if provenance tracking is enabled.
+ *   - terminationReason: Why the research ended.
+ *   - finishedAt: When the research finished.
+ */
+async function finalizeEntities(
+  state: typeof StateAnnotation.State,
+  config: RunnableConfig,
+): Promise<typeof StateAnnotation.Update> {
+  const configuration = ensureConfiguration(config);
+  const field = configuration.fanOutField as string;
+  const order = state.entities ?? [];
+  const results = [...state.entityResults].sort(
+    (a, b) => order.indexOf(a.entity) - order.indexOf(b.entity),
+  );
+  const items = mergeEntities(
+    results.filter(
+      (result): result is EntityResult & { info: AnyRecord } => !!result.info,
+    ),
+    entitySchema(state.extractionSchema, field),
+    (current, update) => ({
+      ...current,
+      info: mergeInfo(current.info, update.info),
+      provenance: mergeInfo(current.provenance, update.provenance),
+    }),
+    (result) => result.info,
+  );
+  const reasons = [
+    state.terminationReason,
+    ...results.map((result) =>
+      result.error ? "entity_error" : result.terminationReason,
+    ),
+  ].filter((reason): reason is TerminationReason => reason !== undefined);
+  const terminationReason: TerminationReason = reasons.includes("budget")
+    ? "budget"
+    : (reasons.find((reason) => reason !== "satisfied") ?? "satisfied");
+  return {
+    info: { [field]: items.map((item) => item.info) },
+    provenance: state.trackProvenance
+      ? {
+          ...state.provenance,
+          [field]: items.map((item) => item.provenance ?? {}),
+        }
+      : undefined,
+    terminationReason,
+    finishedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * The config of a research run started from within the graph. Runs neither
+ * fan out nor wait for review.
+ */
+function subRunConfig(
+  config: RunnableConfig,
+  overrides: AnyRecord,
+): RunnableConfig {
+  return {
+    ...config,
+    configurable: {
+      ...config.configurable,
+      fanOutField: undefined,
+      reviewMode: false,
+      ...overrides,
+    },
+  };
+}
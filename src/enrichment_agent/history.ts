@@ -0,0 +1,160 @@
+/**
+ * Keep the message history sent to the models within the context window.
+ *
+ * With the "compact" history strategy, only the most recent tool exchanges
+ * are sent verbatim. Older search and scrape results are condensed into
+ * running research notes, which are included in the prompt instead. The
+ * original messages stay in the state, so provenance and run reports still
+ * see every search and scrape.
+ */
+import { AIMessage, BaseMessage, ToolMessage } from "@langchain/core/messages";
+
+import { ConfigurationAnnotation } from "./configuration.js";
+import { COMPACT_NOTES_PROMPT, RESEARCH_NOTES_PROMPT } from "./prompts.js";
+import { callModelWithFallbacks } from "./retry.js";
+import { StateAnnotation } from "./state.js";
+import { TokenUsage, usageFromMessage } from "./usage.js";
+import { getTextContent } from "./utils.js";
+
+/**
+ * Find where the verbatim part of the history should start.
+ *
+ * A tool exchange starts with an AI message and includes the tool results and
+ * any other messages up to the next AI message. The history is only ever cut
+ * at the start of an exchange, so no tool call is separated from its result.
+ *
+ * @param messages - The full message history.
+ * @param from - The index of the first message that has not been compacted yet.
+ * @param keep - The number of recent tool exchanges to keep verbatim.
+ * @returns The index of the first message to keep, or undefined if there is nothing to compact.
+ */
+export function compactionCut(
+  messages: BaseMessage[],
+  from: number,
+  keep: number,
+): number | undefined {
+  const starts = messages
+    .map((message, i) => (message._getType() === "ai" ? i : -1))
+    .filter((i) => i >= from);
+  if (starts.length <= keep) {
+    return undefined;
+  }
+  return keep > 0 ? starts[starts.length - keep] : messages.length;
+}
+
+/**
+ * Render tool exchanges as text for the compaction prompt.
+ *
+ * Human messages, such as a reviewer's feedback, are rendered too, so the
+ * notes keep them. Any before the first AI message are the initial prompt,
+ * which is sent with every call anyway.
+ */
+export function formatExchanges(messages: BaseMessage[]): string {
+  const results = new Map<string, ToolMessage>();
+  for (const message of messages) {
+    if (message._getType() === "tool") {
+      results.set(
+        (message as ToolMessage).tool_call_id,
+        message as ToolMessage,
+      );
+    }
+  }
+  const sections: string[] = [];
+  let started = false;
+  for (const message of messages) {
+    if (message._getType() === "human" && started) {
+      sections.push(
+        ["<Feedback>", getTextContent(message.content), "</Feedback>"].join(
+          "\n",
+        ),
+      );
+    }
+    if (message._getType() !== "ai") {
+      continue;
+    }
+    started = true;
+    for (const call of (message as AIMessage).tool_calls ?? []) {
+      const result = call.id ? results.get(call.id) : undefined;
+      sections.push(
+        [
+          `<${call.name}>`,
+          `Arguments: ${JSON.stringify(call.args)}`,
+          result ? getTextContent(result.content) : "(no result)",
+          `</${call.name}>`,
+        ].join("\n"),
+      );
+    }
+  }
+  return sections.join("\n\n");
+}
+
+/**
+ * Condense the older tool exchanges into the research notes, if the history
+ * has grown beyond `keepToolExchanges` exchanges.
+ *
+ * @param state - The current state of the research process.
+ * @param configuration - The run's configuration.
+ * @returns The updated notes, how many messages they cover, and the token usage
+ *   of the summary. Undefined if there was nothing to compact.
+ */
+export async function compactHistory(
+  state: typeof StateAnnotation.State,
+  configuration: typeof ConfigurationAnnotation.State,
+): Promise<
+  | { researchNotes: string; compactedMessages: number; tokenUsage: TokenUsage }
+  | undefined
+> {
+  if (configuration.historyStrategy !== "compact") {
+    return undefined;
+  }
+  const from = state.compactedMessages ?? 0;
+  const cut = compactionCut(
+    state.messages,
+    from,
+    configuration.keepToolExchanges,
+  );
+  if (cut === undefined) {
+    return undefined;
+  }
+  const p = COMPACT_NOTES_PROMPT.replace(
+    "{info}",
+    JSON.stringify(state.extractionSchema, null, 2),
+  )
+    .replace("{notes}", state.researchNotes || "(none yet)")
+    .replace("{results}", formatExchanges(state.messages.slice(from, cut)));
+  const { response, modelName } = await callModelWithFallbacks(
+    configuration.scrapeModel,
+    configuration.scrapeModelParams,
+    configuration,
+    async (model, modelName) => ({
+      response: await model.invoke(p),
+      modelName,
+    }),
+  );
+  return {
+    researchNotes: getTextContent(response.content),
+    compactedMessages: cut,
+    tokenUsage: usageFromMessage(response, modelName, configuration),
+  };
+}
+
+/**
+ * The part of the history that is sent to the models verbatim.
+ */
+export function recentMessages(
+  state: Pick<typeof StateAnnotation.State, "messages" | "compactedMessages">,
+): BaseMessage[] {
+  return state.messages.slice(state.compactedMessages ?? 0);
+}
+
+/**
+ * Add the research notes, if any, to the system prompt.
+ */
+export function withResearchNotes(
+  prompt: string,
+  notes: string | undefined,
+): string {
+  return notes
+    ? `${prompt}\n\n${RESEARCH_NOTES_PROMPT.replace("{notes}", notes)}`
+    : prompt;
+}
@@ -0,0 +1,195 @@
+/**
+ * Progress events for long-running enrichments.
+ *
+ * The graph reports each meaningful step (searches, scrapes, Info submissions,
+ * reflection verdicts and research loops) as a custom event. Stream them with
+ * `graph.streamEvents(input, { version: "v2", ...config })`: they arrive as
+ * `on_custom_event` events named PROGRESS_EVENT. `collectTimeline` turns that
+ * stream into a timeline for display or logging.
+ */
+import { dispatchCustomEvent } from "@langchain/core/callbacks/dispatch";
+import { RunnableConfig } from "@langchain/core/runnables";
+import type { StreamEvent } from "@langchain/core/tracers/log_stream";
+
+/**
+ * The name of the custom events carrying progress.
+ */
+export const PROGRESS_EVENT = "enrichment_progress";
+
+/**
+ * A search was issued.
+ */
+export interface SearchProgress {
+  type: "search";
+  query: string;
+  resultCount: number;
+  cacheHit: boolean;
+}
+
+/**
+ * A URL was scraped, or could not be.
+ */
+export interface ScrapeProgress {
+  type: "scrape";
+  url: string;
+  /**
+   * - ok: the page was fetched and summarized.
+   * - refused: the page may not or could not be fetched (see `reason`).
+   * - error: the page was fetched but could not be summarized.
+   */
+  status: "ok" | "refused" | "error";
+  /**
+   * The HTTP status of the page. Unset for cache hits and failed fetches.
+   */
+  httpStatus?: number;
+  /**
+   * The size of the page in bytes. Unset for cache hits and failed fetches.
+   */
+  size?: number;
+  cacheHit: boolean;
+  reason?: string;
+}
+
+/**
+ * The agent submitted info.
+ */
+export interface InfoProgress {
+  type: "info";
+  /**
+   * The top-level fields with a value.
+   */
+  fields: string[];
+  /**
+   * The number of schema violations. Invalid submissions are sent back to the agent.
+   */
+  violations: number;
+}
+
+/**
+ * The reflection step judged the info.
+ */
+export interface ReflectionProgress {
+  type: "reflection";
+  satisfactory: boolean;
+  acceptedFields: string[];
+  openFields: string[];
+}
+
+/**
+ * The agent started a research loop.
+ */
+export interface LoopProgress {
+  type: "loop";
+  loopStep: number;
+  maxLoops: number;
+}
+
+export type ProgressEvent =
+  | SearchProgress
+  | ScrapeProgress
+  | InfoProgress
+  | ReflectionProgress
+  | LoopProgress;
+
+/**
+ * Report progress from within a node or tool.
+ *
+ * Progress is best-effort: outside of a graph run (e.g. when a node is called
+ * directly in a test) there is nothing to report to, and the event is dropped.
+ *
+ * @param event - The progress event.
+ * @param config - The config of the node or tool.
+ */
+export async function emitProgress(
+  event: ProgressEvent,
+  config?: RunnableConfig,
+): Promise<void> {
+  try {
+    await dispatchCustomEvent(PROGRESS_EVENT, event, config);
+  } catch {
+    // No parent run to attach the event to.
+  }
+}
+
+/**
+ * A progress event with its timing.
+ */
+export interface TimelineEntry {
+  /**
+   * When the event was received, as an ISO timestamp.
+   */
+  at: string;
+  /**
+   * Milliseconds since the first event of the timeline.
+   */
+  elapsedMs: number;
+  event: ProgressEvent;
+  /**
+   * A one-line description of the event.
+   */
+  summary: string;
+}
+
+/**
+ * Collect the progress events of a run into a timeline.
+ *
+ * @param events - The stream returned by `graph.streamEvents(..., { version: "v2" })`.
+ * @param onEntry - Called with each entry as it arrives, e.g. to update a UI or log.
+ * @returns The timeline, in the order the events were received.
+ */
+export async function collectTimeline(
+  events: AsyncIterable<StreamEvent>,
+  onEntry?: (entry: TimelineEntry) => void,
+): Promise<TimelineEntry[]> {
+  const timeline: TimelineEntry[] = [];
+  let start: number | undefined;
+  for await (const streamEvent of events) {
+    if (
+      streamEvent.event !== "on_custom_event" ||
+      streamEvent.name !== PROGRESS_EVENT
+    ) {
+      continue;
+    }
+    const now = Date.now();
+    start ??= now;
+    const event = streamEvent.data as ProgressEvent;
+    const entry = {
+      at: new Date(now).toISOString(),
+      elapsedMs: now - start,
+      event,
+      summary: summarizeProgress(event),
+    };
+    timeline.push(entry);
+    onEntry?.(entry);
+  }
+  return timeline;
+}
+
+/**
+ * Describe a progress event in one line.
+ */
+export function summarizeProgress(event: ProgressEvent): string {
+  switch (event.type) {
+    case "search":
+      return `Searched "${event.query}": ${event.resultCount} results${event.cacheHit ? " (cached)" : ""}`;
+    case "scrape":
+      if (event.status !== "ok") {
+        return `Could not scrape ${event.url}: ${event.reason ?? event.status}`;
+      }
+      return event.cacheHit
+        ? `Scraped ${event.url} (cached)`
+        : `Scraped ${event.url}: HTTP ${event.httpStatus}, ${event.size} bytes`;
+    case "info":
+      return event.violations
+        ? `Submitted info with ${event.violations} schema violations`
+        : `Submitted info with ${event.fields.length} fields: ${event.fields.join(", ")}`;
+    case "reflection":
+      return event.satisfactory
+        ? "Reflection accepted the info"
+        : `Reflection asked for more research${event.openFields.length ? ` on ${event.openFields.join(", ")}` : ""}`;
+    case "loop":
+      return `Research loop ${event.loopStep} of ${event.maxLoops}`;
+    default:
+      return JSON.stringify(event);
+  }
+}
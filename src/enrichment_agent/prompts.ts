@@ -18,6 +18,13 @@ Here is the information you have about the topic you are researching:
 
 Topic: {topic}`;
 
+export const CORPUS_TOOLS_PROMPT = `You also have access to a corpus of internal documents:
+
+- \`SearchDocuments\`: search the internal documents and get back the matching ones
+- \`readDocument\`: read a document found with \`SearchDocuments\` and get relevant notes about the given request. This will update the notes above.
+
+Check the internal documents as well as the web.`;
+
 export const INFO_PROMPT = `You are doing web research on behalf of a user. You are trying to find out this information:
 
 <info>
@@ -29,3 +36,69 @@ You just scraped the following website: {url}
 Based on the website content below, jot down some notes about the website.
 
 {content}`;
+
+export const MERGE_NOTES_PROMPT = `You are doing web research on behalf of a user. You are trying to find out this information:
+
+<info>
+{info}
+</info>
+
+You scraped the website {url} in several parts and took the notes below on each part.
+
+Merge them into a single set of notes about the website. Keep every relevant fact, remove duplicates, and keep any URLs that were cited.
+
+{notes}`;
+
+export const STRUCTURED_DATA_PROMPT = `The page's structured data (schema.org JSON-LD, OpenGraph tags and tables) has values for these fields. They were read directly from the page's markup, so they are high-confidence candidates:
+
+{candidates}`;
+
+export const BUDGET_EXHAUSTED_PROMPT = `The research budget for this topic has run out. Do not search or scrape any further.
+Call the Info tool now with the best information you have gathered so far. Leave out anything you could not find.`;
+
+export const FIELD_PROGRESS_PROMPT = `Here is the feedback on the fields of your previous submission.
+
+Accepted fields (these are kept as-is, so do not research them again):
+{accepted}
+
+Fields that still need work:
+{open}
+
+Focus your research on the fields that still need work. When you call the Info tool, you may leave out the accepted fields.`;
+
+export const REVIEW_FEEDBACK_PROMPT = `A reviewer checked the info you submitted and asked for changes:
+
+{feedback}
+
+Research the topic further to address this feedback, then call the Info tool again.`;
+
+export const ENTITY_TOPIC_PROMPT = `{entity}, as one of the entities found for: {topic}`;
+
+export const COMPACT_NOTES_PROMPT = `You are doing web research on behalf of a user. You are trying to find out this information:
+
+<info>
+{info}
+</info>
+
+Here are your research notes so far:
+
+<notes>
+{notes}
+</notes>
+
+Below are the searches and scraped websites you have made since, and any feedback you were given. Update the notes with what they found.
+Keep every relevant fact with the URL of its source, note which searches and websites turned out to be useless, and remove duplicates. Keep the feedback in full, as it still applies. Respond with the updated notes only.
+
+{results}`;
+
+export const RESEARCH_NOTES_PROMPT = `Your earlier searches and scraped websites were condensed into the research notes below. Rely on them instead of searching or scraping the same sources again.
+
+<notes>
+{notes}
+</notes>`;
+
+export const SOURCE_TRUST_PROMPT = `The research relied on sources from the domains below. Each has a trust score from 0 (unreliable) to 1 (authoritative):
+
+{sources}
+
+Push back on fields that are only supported by sources with a low trust score, and ask for corroboration from a more trustworthy source.`;
@@ -0,0 +1,231 @@
+/**
+ * Attribute each extracted value to the sources that support it.
+ *
+ * Provenance is computed from the search results and scraped website notes
+ * that are already part of the message history, so no additional model calls
+ * are required.
+ */
+import { AIMessage, BaseMessage, ToolMessage } from "@langchain/core/messages";
+
+import { AnyRecord } from "./state.js";
+import { getTextContent } from "./utils.js";
+
+/**
+ * A source supporting a single extracted value.
+ */
+export interface Citation {
+  url: string;
+  /**
+   * The passage of the source which mentions the value.
+   */
+  snippet: string;
+  /**
+   * Whether the passage came from a search result or from scraped website notes.
+   */
+  source: "search" | "scrape";
+}
+
+/**
+ * A piece of gathered evidence that values can be attributed to.
+ */
+export interface Evidence {
+  url: string;
+  text: string;
+  source: Citation["source"];
+}
+
+// The maximum number of citations kept per extracted value.
+const MAX_CITATIONS = 3;
+// The minimum fraction of a value's words that must appear in a passage
+// for it to count as supporting evidence.
+const MIN_OVERLAP = 0.6;
+
+/**
+ * Collect the evidence gathered by the tools during the research loop.
+ *
+ * @param messages - The message history of the research process.
+ * @returns A list of search results and scraped website notes.
+ */
+export function collectEvidence(messages: BaseMessage[]): Evidence[] {
+  // Scrape results only contain the notes, so we look up the requested
+  // URL from the tool call that produced them.
+  const requestedUrls = new Map<string, string>();
+  for (const message of messages) {
+    if (message._getType() === "ai") {
+      for (const call of (message as AIMessage).tool_calls ?? []) {
+        if (call.id && typeof call.args?.url === "string") {
+          requestedUrls.set(call.id, call.args.url);
+        }
+      }
+    }
+  }
+
+  const evidence: Evidence[] = [];
+  for (const message of messages) {
+    if (message._getType() !== "tool") {
+      continue;
+    }
+    const toolMessage = message as ToolMessage;
+    if (toolMessage.status === "error") {
+      continue;
+    }
+    const content = getTextContent(toolMessage.content);
+    const url = requestedUrls.get(toolMessage.tool_call_id);
+    // Local documents are read with readDocument, and cited like scraped pages.
+    if (
+      (toolMessage.name === "scrapeWebsite" ||
+        toolMessage.name === "readDocument") &&
+      url
+    ) {
+      evidence.push({ url, text: content, source: "scrape" });
+      continue;
+    }
+    for (const result of parseSearchResults(content)) {
+      evidence.push({
+        url: result.url,
+        text: [result.title, result.content].filter(Boolean).join("\n"),
+        source: "search",
+      });
+    }
+  }
+  return evidence;
+}
+
+/**
+ * Pair each leaf of the info with the evidence that supports it.
+ *
+ * @param info - The extracted info.
+ * @param evidence - The evidence returned by collectEvidence.
+ * @returns An object with the same shape as the info, where every leaf value
+ *   is replaced by the list of citations supporting it.
+ */
+export function attributeProvenance(
+  info: AnyRecord,
+  evidence: Evidence[],
+): AnyRecord {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const visit = (value: any): any => {
+    if (Array.isArray(value)) {
+      return value.map(visit);
+    }
+    if (value !== null && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, v]) => [key, visit(v)]),
+      );
+    }
+    return findCitations(value, evidence);
+  };
+  return visit(info);
+}
+
+function findCitations(value: unknown, evidence: Evidence[]): Citation[] {
+  if (value === null || value === undefined || typeof value === "boolean") {
+    return [];
+  }
+  const needle = normalize(String(value));
+  const words = tokenize(needle);
+  if (!needle) {
+    return [];
+  }
+  const scored: Array<Citation & { score: number }> = [];
+  for (const item of evidence) {
+    let best = { score: 0, snippet: "" };
+    for (const sentence of splitSentences(item.text)) {
+      const haystack = normalize(sentence);
+      let score = 0;
+      if (containsPhrase(haystack, needle)) {
+        score = 1;
+      } else if (words.length) {
+        score = overlap(words, new Set(tokenize(haystack)));
+      }
+      if (score > best.score) {
+        best = { score, snippet: sentence.trim() };
+      }
+    }
+    if (best.score >= MIN_OVERLAP) {
+      scored.push({
+        url: item.url,
+        snippet: best.snippet,
+        source: item.source,
+        score: best.score,
+      });
+    }
+  }
+  const seen = new Set<string>();
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .filter(({ url, snippet }) => {
+      const key = `${url}\n${snippet}`;
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_CITATIONS)
+    .map(({ url, snippet, source }) => ({ url, snippet, source }));
+}
+
+function parseSearchResults(
+  content: string,
+): Array<{ url: string; title?: string; content?: string }> {
+  try {
+    const parsed = JSON.parse(content);
+    if (!Array.isArray(parsed)) {
+      return [];
+    }
+    return parsed.filter((result) => result && typeof result.url === "string");
+  } catch {
+    return [];
+  }
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+// Whether the needle occurs in the haystack as whole words, so that "ai" does
+// not match "said" and "50" does not match "1950", "$50M" or "50.5".
+function containsPhrase(haystack: string, needle: string): boolean {
+  for (
+    let i = haystack.indexOf(needle);
+    i !== -1;
+    i = haystack.indexOf(needle, i + 1)
+  ) {
+    const end = i + needle.length;
+    if (
+      !joins(haystack.slice(0, i), needle) &&
+      !joins(needle, haystack.slice(end))
+    ) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Whether the end of `before` and the start of `after` belong to the same word
+// or number, e.g. "19" + "50", or "50" + ".5" (but not "50" + ". ").
+function joins(before: string, after: string): boolean {
+  const last = before.at(-1) ?? "";
+  const first = after.at(0) ?? "";
+  if (/[\p{L}\p{N}]/u.test(last) && /[\p{L}\p{N}]/u.test(first)) {
+    return true;
+  }
+  return (
+    (/\d/.test(last) && /^[.,]\d/.test(after)) ||
+    (/[.,]/.test(last) && /\d/.test(before.at(-2) ?? "") && /\d/.test(first))
+  );
+}
+
+function tokenize(text: string): string[] {
+  return text.split(/[^\p{L}\p{N}]+/u).filter((word) => word.length > 2);
+}
+
+function splitSentences(text: string): string[] {
+  return text.split(/(?<=[.!?])\s+|\n+/).filter((s) => s.trim());
+}
+
+function overlap(words: string[], haystack: Set<string>): number {
+  const hits = words.filter((word) => haystack.has(word)).length;
+  return hits / words.length;
+}
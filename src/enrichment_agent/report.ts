@@ -0,0 +1,386 @@
+/**
+ * Build a report of a finished run, for compliance reviews and debugging.
+ *
+ * The report is derived from the final state of the graph: every search,
+ * scrape, Info submission and reflection verdict is read from the message
+ * history, so nothing needs to be recorded while the graph runs. In fan-out
+ * mode, each entity's messages are read from its entity result.
+ */
+import { AIMessage, BaseMessage, ToolMessage } from "@langchain/core/messages";
+
+import {
+  AnyRecord,
+  FieldChange,
+  StateAnnotation,
+  TerminationReason,
+} from "./state.js";
+import { TokenUsage } from "./usage.js";
+import { getTextContent } from "./utils.js";
+import { SchemaViolation } from "./validation.js";
+
+/**
+ * A search issued by the agent.
+ */
+export interface SearchRecord {
+  query: string;
+  /**
+   * The URLs of the results, in ranking order.
+   */
+  urls: string[];
+  cacheHit?: boolean;
+  error?: string;
+}
+
+/**
+ * A URL scraped by the agent.
+ */
+export interface ScrapeRecord {
+  url: string;
+  /**
+   * The notes taken from the page. Unset if the scrape failed.
+   */
+  notes?: string;
+  cacheHit?: boolean;
+  error?: string;
+}
+
+/**
+ * Info submitted by the agent.
+ */
+export interface SubmissionRecord {
+  info: AnyRecord;
+  /**
+   * The schema violations the submission was sent back for.
+   */
+  violations: SchemaViolation[];
+}
+
+/**
+ * A verdict of the reflection step.
+ */
+export interface ReflectionRecord {
+  satisfactory: boolean;
+  reasons: string[];
+  improvementInstructions?: string;
+  fieldFeedback?: AnyRecord[];
+}
+
+/**
+ * The steps of a research run, read from its messages.
+ */
+export interface RunSteps {
+  searches: SearchRecord[];
+  scrapes: ScrapeRecord[];
+  submissions: SubmissionRecord[];
+  reflections: ReflectionRecord[];
+}
+
+/**
+ * The research of a single entity in fan-out mode.
+ */
+export interface EntityReport extends RunSteps {
+  entity: string;
+  info?: AnyRecord;
+  terminationReason?: TerminationReason;
+  loopStep: number;
+  /**
+   * Set if the entity's run failed.
+   */
+  error?: string;
+}
+
+/**
+ * Everything that happened during a run.
+ */
+export interface RunReport extends RunSteps {
+  topic: string;
+  extractionSchema: AnyRecord;
+  info?: AnyRecord;
+  /**
+   * The changes to the seed record, when enriching an existing record.
+   */
+  changes?: FieldChange[];
+  terminationReason?: TerminationReason;
+  loopStep: number;
+  timing: {
+    startedAt?: string;
+    finishedAt?: string;
+    durationMs?: number;
+  };
+  tokenUsage: TokenUsage;
+  /**
+   * The research of each entity, in fan-out mode. The steps of the run itself
+   * are those of the entity discovery.
+   */
+  entities?: EntityReport[];
+}
+
+/**
+ * Build a report from the final state of a run.
+ *
+ * @param state - The output of the graph.
+ * @returns The report. Serialize it with JSON.stringify, or render it with reportToMarkdown.
+ */
+export function buildReport(state: typeof StateAnnotation.State): RunReport {
+  return {
+    topic: state.topic,
+    extractionSchema: state.extractionSchema,
+    info: state.info,
+    changes: state.changes,
+    terminationReason: state.terminationReason,
+    loopStep: state.loopStep ?? 0,
+    timing: {
+      startedAt: state.startedAt,
+      finishedAt: state.finishedAt,
+      durationMs:
+        state.startedAt && state.finishedAt
+          ? Date.parse(state.finishedAt) - Date.parse(state.startedAt)
+          : undefined,
+    },
+    tokenUsage: state.tokenUsage,
+    ...collectSteps(state.messages ?? []),
+    entities: state.entityResults?.length
+      ? state.entityResults.map((result) => ({
+          entity: result.entity,
+          info: result.info,
+          terminationReason: result.terminationReason,
+          loopStep: result.loopStep ?? 0,
+          error: result.error,
+          ...collectSteps(result.messages ?? []),
+        }))
+      : undefined,
+  };
+}
+
+function collectSteps(messages: BaseMessage[]): RunSteps {
+  const results = new Map<string, ToolMessage>();
+  for (const message of messages) {
+    if (message._getType() === "tool") {
+      const toolMessage = message as ToolMessage;
+      // The last message for a call wins, e.g. reflection after an accepted submission.
+      results.set(toolMessage.tool_call_id, toolMessage);
+    }
+  }
+
+  const steps: RunSteps = {
+    searches: [],
+    scrapes: [],
+    submissions: [],
+    reflections: [],
+  };
+
+  for (const message of messages) {
+    if (message._getType() === "ai") {
+      for (const call of (message as AIMessage).tool_calls ?? []) {
+        const result = call.id ? results.get(call.id) : undefined;
+        if (call.name === "Search" || call.name === "SearchDocuments") {
+          steps.searches.push(searchRecord(call.args.query, result));
+        } else if (
+          call.name === "scrapeWebsite" ||
+          call.name === "readDocument"
+        ) {
+          steps.scrapes.push(scrapeRecord(call.args.url, result));
+        } else if (call.name === "Info") {
+          const violations = messages.find(
+            (m) =>
+              m._getType() === "tool" &&
+              (m as ToolMessage).tool_call_id === call.id &&
+              Array.isArray((m as ToolMessage).artifact),
+          ) as ToolMessage | undefined;
+          steps.submissions.push({
+            info: call.args,
+            violations: violations?.artifact ?? [],
+          });
+        }
+      }
+    } else if (message._getType() === "tool") {
+      const verdict = (message as ToolMessage).artifact;
+      if (verdict && typeof verdict.is_satisfactory === "boolean") {
+        steps.reflections.push({
+          satisfactory: (message as ToolMessage).status === "success",
+          reasons: verdict.reason ?? [],
+          improvementInstructions: verdict.improvement_instructions,
+          fieldFeedback: verdict.field_feedback,
+        });
+      }
+    }
+  }
+  return steps;
+}
+
+function searchRecord(query: string, result?: ToolMessage): SearchRecord {
+  const content = result ? getTextContent(result.content) : "";
+  if (!result || result.status === "error") {
+    return { query, urls: [], error: content || "No result" };
+  }
+  let urls: string[] = [];
+  try {
+    const parsed = JSON.parse(content);
+    urls = Array.isArray(parsed)
+      ? parsed.map((r) => r?.url).filter((url) => typeof url === "string")
+      : [];
+  } catch {
+    // Not a list of results.
+  }
+  return { query, urls, cacheHit: result.artifact?.cacheHit };
+}
+
+function scrapeRecord(url: string, result?: ToolMessage): ScrapeRecord {
+  const content = result ? getTextContent(result.content) : "";
+  if (!result || result.status === "error") {
+    return { url, error: content || "No result" };
+  }
+  return { url, notes: content, cacheHit: result.artifact?.cacheHit };
+}
+
+/**
+ * Render a report as Markdown.
+ *
+ * @param report - The report returned by buildReport.
+ * @returns A Markdown document.
+ */
+export function reportToMarkdown(report: RunReport): string {
+  const json = (value: unknown) =>
+    ["```json", JSON.stringify(value ?? null, null, 2), "```"].join("\n");
+  const { timing, tokenUsage } = report;
+  const lines = [
+    `# Enrichment report: ${report.topic}`,
+    "",
+    "| | |",
+    "| --- | --- |",
+    `| Termination reason | ${report.terminationReason ?? "unknown"} |`,
+    `| Research loops | ${report.loopStep} |`,
+    `| Started | ${timing.startedAt ?? "unknown"} |`,
+    `| Finished | ${timing.finishedAt ?? "unknown"} |`,
+    `| Duration | ${timing.durationMs !== undefined ? `${(timing.durationMs / 1000).toFixed(1)}s` : "unknown"} |`,
+    `| Tokens | ${tokenUsage?.totalTokens ?? 0} (${tokenUsage?.inputTokens ?? 0} input, ${tokenUsage?.outputTokens ?? 0} output) |`,
+    `| Estimated cost | $${(tokenUsage?.costUsd ?? 0).toFixed(4)} |`,
+    "",
+    "## Final info",
+    "",
+    json(report.info),
+    "",
+  ];
+  if (report.changes) {
+    lines.push("## Changes to the existing record", "");
+    if (!report.changes.length) {
+      lines.push("No changes.");
+    }
+    for (const change of report.changes) {
+      lines.push(
+        change.kind === "added"
+          ? `- \`${change.field}\`: added ${JSON.stringify(change.after)}`
+          : change.kind === "removed"
+            ? `- \`${change.field}\`: removed ${JSON.stringify(change.before)}`
+            : `- \`${change.field}\`: changed from ${JSON.stringify(change.before)} to ${JSON.stringify(change.after)}`,
+      );
+    }
+    lines.push("");
+  }
+  lines.push(...renderSteps(report, 2));
+  if (report.entities) {
+    lines.push("## Entities", "");
+    for (const entity of report.entities) {
+      lines.push(
+        `### ${entity.entity}`,
+        "",
+        `- Termination reason: ${entity.error ? "error" : (entity.terminationReason ?? "unknown")}`,
+        `- Research loops: ${entity.loopStep}`,
+      );
+      if (entity.error) {
+        lines.push(`- Error: ${oneLine(entity.error)}`);
+      }
+      lines.push("", json(entity.info), "", ...renderSteps(entity, 4));
+    }
+  }
+  lines.push("## Extraction schema", "", json(report.extractionSchema), "");
+  return lines.join("\n");
+}
+
+// Render the steps of a run, with its section headings at the given level.
+function renderSteps(steps: RunSteps, level: number): string[] {
+  const json = (value: unknown) =>
+    ["```json", JSON.stringify(value ?? null, null, 2), "```"].join("\n");
+  const section = "#".repeat(level);
+  const item = "#".repeat(level + 1);
+  const lines = [`${section} Searches`, ""];
+  if (!steps.searches.length) {
+    lines.push("No searches.", "");
+  }
+  steps.searches.forEach((search, i) => {
+    lines.push(
+      `${i + 1}. "${search.query}"${search.cacheHit ? " (cached)" : ""}`,
+    );
+    if (search.error) {
+      lines.push(`   - Error: ${oneLine(search.error)}`);
+    }
+    for (const url of search.urls) {
+      lines.push(`   - ${url}`);
+    }
+  });
+  lines.push("", `${section} Scraped pages`, "");
+  if (!steps.scrapes.length) {
+    lines.push("No pages were scraped.", "");
+  }
+  for (const scrape of steps.scrapes) {
+    lines.push(
+      `${item} ${scrape.url}${scrape.cacheHit ? " (cached)" : ""}`,
+      "",
+    );
+    lines.push(
+      scrape.error ? `Error: ${oneLine(scrape.error)}` : quote(scrape.notes),
+      "",
+    );
+  }
+  lines.push(`${section} Submissions`, "");
+  if (!steps.submissions.length) {
+    lines.push("No info was submitted.", "");
+  }
+  steps.submissions.forEach((submission, i) => {
+    lines.push(`${item} Submission ${i + 1}`, "", json(submission.info), "");
+    for (const violation of submission.violations) {
+      lines.push(`- Violation at ${violation.path}: ${violation.message}`);
+    }
+    if (submission.violations.length) {
+      lines.push("");
+    }
+  });
+  lines.push(`${section} Reflection verdicts`, "");
+  if (!steps.reflections.length) {
+    lines.push("No verdicts.", "");
+  }
+  steps.reflections.forEach((reflection, i) => {
+    lines.push(
+      `${item} Verdict ${i + 1}: ${reflection.satisfactory ? "accepted" : "needs more research"}`,
+      "",
+      ...reflection.reasons.map((reason) => `- ${oneLine(reason)}`),
+      "",
+    );
+    if (reflection.improvementInstructions) {
+      lines.push(
+        `Improvement instructions: ${oneLine(reflection.improvementInstructions)}`,
+        "",
+      );
+    }
+    for (const feedback of reflection.fieldFeedback ?? []) {
+      lines.push(
+        `- \`${feedback.field}\`: ${feedback.status} (confidence ${feedback.confidence}). ${oneLine(feedback.justification ?? "")}`,
+      );
+    }
+    if (reflection.fieldFeedback?.length) {
+      lines.push("");
+    }
+  });
+  return lines;
+}
+
+function oneLine(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function quote(text = ""): string {
+  return text
+    .split("\n")
+    .map((line) => `> ${line}`.trimEnd())
+    .join("\n");
+}
@@ -0,0 +1,163 @@
+/**
+ * Retries and fallbacks for transient failures.
+ *
+ * Model providers and websites fail now and then with rate limits, overloads
+ * and dropped connections. Such failures are retried with exponential backoff
+ * and jitter. Model calls that keep failing move on to the configured
+ * fallback models. Other failures are not retried.
+ */
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+
+import { ConfigurationAnnotation } from "./configuration.js";
+import { ChatModelParams, loadChatModel } from "./utils.js";
+
+type RetryConfiguration = Pick<
+  typeof ConfigurationAnnotation.State,
+  "maxRetries" | "retryInitialDelayMs" | "retryMaxDelayMs"
+>;
+
+const TRANSIENT_STATUSES = new Set([
+  408, 409, 425, 429, 500, 502, 503, 504, 529,
+]);
+
+const TRANSIENT_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+/**
+ * Whether an error is likely to go away when the call is retried: rate limits,
+ * overloaded or failing servers, timeouts and dropped connections.
+ */
+export function isTransientError(e: unknown): boolean {
+  if (!e || typeof e !== "object") {
+    return false;
+  }
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const error = e as any;
+  if (error.name === "FetchRefusedError") {
+    return (
+      error.reason === "timeout" ||
+      (error.reason === "http_status" &&
+        TRANSIENT_STATUSES.has(error.status ?? 0))
+    );
+  }
+  const status = error.status ?? error.response?.status;
+  if (typeof status === "number") {
+    return TRANSIENT_STATUSES.has(status);
+  }
+  if (error.lc_error_code === "MODEL_RATE_LIMIT") {
+    return true;
+  }
+  const code = error.code ?? error.cause?.code;
+  if (typeof code === "string" && TRANSIENT_CODES.has(code)) {
+    return true;
+  }
+  return (
+    [
+      "APIConnectionError",
+      "APIConnectionTimeoutError",
+      "TimeoutError",
+    ].includes(error.name) ||
+    /rate limit|overloaded/i.test(String(error.message))
+  );
+}
+
+/**
+ * The delay before a retry. It doubles with every attempt up to
+ * `retryMaxDelayMs`, and a random half of it is dropped so that parallel runs
+ * do not retry in lockstep.
+ *
+ * @param attempt - The number of the retry, starting at 0.
+ * @param configuration - The retry configuration.
+ * @param random - A random number in [0, 1).
+ * @returns The delay in milliseconds.
+ */
+export function retryDelay(
+  attempt: number,
+  configuration: RetryConfiguration,
+  random = Math.random(),
+): number {
+  const delay = Math.min(
+    configuration.retryMaxDelayMs,
+    configuration.retryInitialDelayMs * 2 ** attempt,
+  );
+  return delay / 2 + (random * delay) / 2;
+}
+
+/**
+ * Call a function, retrying it on transient errors.
+ *
+ * @param fn - The function to call.
+ * @param configuration - The retry configuration.
+ * @param isRetryable - Whether an error should be retried.
+ * @returns The result of the first successful call.
+ * @throws The last error, once it is not retryable or `maxRetries` is reached.
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  configuration: RetryConfiguration,
+  isRetryable: (e: unknown) => boolean = isTransientError,
+): Promise<T> {
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      return await fn();
+    } catch (e) {
+      if (attempt >= configuration.maxRetries || !isRetryable(e)) {
+        throw e;
+      }
+      await new Promise((resolve) =>
+        setTimeout(resolve, retryDelay(attempt, configuration)),
+      );
+    }
+  }
+}
+
+/**
+ * Call a chat model, with retries. If the model keeps failing with transient
+ * errors, the `fallbackModels` are tried in order, with the same parameters.
+ *
+ * Models are created with `maxRetries: 0`, so their built-in retries do not
+ * multiply the configured `maxRetries`.
+ *
+ * @param fullySpecifiedName - The configured model, e.g. 'anthropic/claude-3-5-sonnet-20240620'.
+ * @param params - The parameters for the model.
+ * @param configuration - The agent configuration.
+ * @param call - Makes the call with a model. Receives the model's name, e.g. to attribute its token usage.
+ * @returns The result of the first successful call.
+ * @throws The error of the last model tried, or the first error that is not transient.
+ */
+export async function callModelWithFallbacks<T>(
+  fullySpecifiedName: string,
+  params: ChatModelParams,
+  configuration: RetryConfiguration &
+    Pick<typeof ConfigurationAnnotation.State, "fallbackModels">,
+  call: (model: BaseChatModel, modelName: string) => Promise<T>,
+): Promise<T> {
+  const names = [
+    fullySpecifiedName,
+    ...configuration.fallbackModels.filter(
+      (name) => name !== fullySpecifiedName,
+    ),
+  ];
+  let lastError: unknown;
+  for (const name of names) {
+    // The model's own retries are turned off, so that the retry settings
+    // above are the only ones in effect.
+    const model = await loadChatModel(name, { ...params, maxRetries: 0 });
+    try {
+      return await withRetry(() => call(model, name), configuration);
+    } catch (e) {
+      if (!isTransientError(e)) {
+        throw e;
+      }
+      lastError = e;
+    }
+  }
+  throw lastError;
+}
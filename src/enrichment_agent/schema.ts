@@ -0,0 +1,215 @@
+/**
+ * Check and normalize the extraction schema before the research starts.
+ *
+ * The extraction schema is bound to the `Info` tool and sent to the model
+ * provider on every loop. A schema the provider cannot handle would otherwise
+ * only fail several calls into the run, with an obscure provider error.
+ */
+import { convertToOpenAIFunction } from "@langchain/core/utils/function_calling";
+import { isZodSchema } from "@langchain/core/utils/types";
+import { z } from "zod";
+
+import { AnyRecord } from "./state.js";
+
+/**
+ * An extraction schema: a JSON Schema, or a Zod schema of an object.
+ */
+export type ExtractionSchema = AnyRecord | z.ZodType<AnyRecord>;
+
+/**
+ * Thrown when the extraction schema cannot be used.
+ */
+export class SchemaError extends Error {
+  name = "SchemaError";
+
+  constructor(
+    message: string,
+    /**
+     * JSON pointer to the offending part of the schema, e.g. "/properties/founder".
+     */
+    public readonly path: string,
+  ) {
+    super(`Invalid extractionSchema at ${path || "/"}: ${message}`);
+  }
+}
+
+// Keywords that tool-calling providers do not reliably support. Schemas using
+// them are rejected rather than silently ignored.
+const UNSUPPORTED_KEYWORDS = [
+  "if",
+  "then",
+  "else",
+  "not",
+  "dependencies",
+  "dependentSchemas",
+  "dependentRequired",
+  "patternProperties",
+  "propertyNames",
+  "unevaluatedProperties",
+  "unevaluatedItems",
+  "contains",
+  "$dynamicRef",
+  "$recursiveRef",
+];
+
+const JSON_TYPES = new Set([
+  "object",
+  "array",
+  "string",
+  "number",
+  "integer",
+  "boolean",
+  "null",
+]);
+
+/**
+ * Convert the extraction schema to JSON Schema, check it, and normalize it.
+ *
+ * - Zod schemas are converted to JSON Schema.
+ * - References ($ref) are inlined, and the definitions they point to are removed.
+ *
+ * @param schema - The extraction schema the graph was invoked with.
+ * @returns The normalized JSON Schema.
+ * @throws SchemaError if the schema has no top-level object type, has a $ref
+ *   cycle or a reference that cannot be resolved, or uses an unsupported keyword.
+ */
+export function normalizeSchema(schema: ExtractionSchema): AnyRecord {
+  const jsonSchema = isZodSchema(schema)
+    ? convertToOpenAIFunction({
+        name: "Info",
+        description: "",
+        // Schemas of other types are converted too, and rejected below.
+        schema: schema as z.AnyZodObject,
+      }).parameters
+    : schema;
+  if (!isSchemaObject(jsonSchema)) {
+    throw new SchemaError("Expected a JSON Schema object or a Zod schema.", "");
+  }
+  if (jsonSchema.type !== "object") {
+    throw new SchemaError(
+      `The top-level type must be "object", got ${JSON.stringify(jsonSchema.type)}. Wrap the fields in { "type": "object", "properties": { ... } }.`,
+      "",
+    );
+  }
+  const normalized = inlineReferences(jsonSchema, jsonSchema, "", ["#"]);
+  // The definitions are inlined where they are used.
+  delete normalized.$schema;
+  delete normalized.$defs;
+  delete normalized.definitions;
+  return normalized;
+}
+
+function inlineReferences(
+  node: AnyRecord,
+  root: AnyRecord,
+  path: string,
+  resolving: string[],
+): AnyRecord {
+  for (const keyword of UNSUPPORTED_KEYWORDS) {
+    if (keyword in node) {
+      throw new SchemaError(
+        `The "${keyword}" keyword is not supported. Describe the constraint in the field's description instead.`,
+        path,
+      );
+    }
+  }
+  const types = Array.isArray(node.type) ? node.type : [node.type];
+  for (const type of types) {
+    if (type !== undefined && !JSON_TYPES.has(type)) {
+      throw new SchemaError(
+        `Unknown type ${JSON.stringify(type)}.`,
+        `${path}/type`,
+      );
+    }
+  }
+  if (typeof node.$ref === "string") {
+    const ref = node.$ref;
+    if (resolving.includes(ref)) {
+      throw new SchemaError(
+        `The $ref cycle ${[...resolving.slice(resolving.indexOf(ref)), ref].join(" -> ")} makes the schema recursive, which is not supported.`,
+        path,
+      );
+    }
+    const siblings = { ...node };
+    delete siblings.$ref;
+    const target = inlineReferences(
+      resolvePointer(root, ref, path),
+      root,
+      path,
+      [...resolving, ref],
+    );
+    return { ...target, ...siblings };
+  }
+  const result: AnyRecord = {};
+  for (const [key, value] of Object.entries(node)) {
+    const childPath = `${path}/${escapePointer(key)}`;
+    if (key === "properties" && isSchemaObject(value)) {
+      result[key] = Object.fromEntries(
+        Object.entries(value).map(([name, child]) => [
+          name,
+          subschema(
+            child,
+            root,
+            `${childPath}/${escapePointer(name)}`,
+            resolving,
+          ),
+        ]),
+      );
+    } else if (
+      ["items", "additionalProperties"].includes(key) &&
+      isSchemaObject(value)
+    ) {
+      result[key] = inlineReferences(value, root, childPath, resolving);
+    } else if (
+      ["anyOf", "oneOf", "allOf", "prefixItems"].includes(key) &&
+      Array.isArray(value)
+    ) {
+      result[key] = value.map((child, i) =>
+        subschema(child, root, `${childPath}/${i}`, resolving),
+      );
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+function subschema(
+  value: unknown,
+  root: AnyRecord,
+  path: string,
+  resolving: string[],
+): AnyRecord {
+  if (!isSchemaObject(value)) {
+    throw new SchemaError("Expected a schema object.", path);
+  }
+  return inlineReferences(value, root, path, resolving);
+}
+
+function resolvePointer(root: AnyRecord, ref: string, path: string): AnyRecord {
+  if (!ref.startsWith("#")) {
+    throw new SchemaError(
+      `Only references within the schema are supported, got "${ref}".`,
+      path,
+    );
+  }
+  let target: unknown = root;
+  for (const segment of ref.slice(1).split("/").filter(Boolean)) {
+    const key = decodeURIComponent(segment)
+      .replace(/~1/g, "/")
+      .replace(/~0/g, "~");
+    target = isSchemaObject(target) ? target[key] : undefined;
+  }
+  if (!isSchemaObject(target)) {
+    throw new SchemaError(`The reference "${ref}" cannot be resolved.`, path);
+  }
+  return target;
+}
+
+function escapePointer(key: string): string {
+  return key.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+function isSchemaObject(value: unknown): value is AnyRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
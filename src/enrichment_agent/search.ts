@@ -0,0 +1,212 @@
+/**
+ * Search providers backing the agent's `Search` tool.
+ *
+ * Every provider returns the same result shape, so the rest of the agent
+ * does not need to know which search backend is configured.
+ */
+import { readFile } from "fs/promises";
+import { TavilySearchResults } from "@langchain/community/tools/tavily_search";
+
+import { ConfigurationAnnotation } from "./configuration.js";
+import { AnyRecord } from "./state.js";
+
+/**
+ * A single search result.
+ */
+export interface SearchResult {
+  title?: string;
+  url: string;
+  content: string;
+  score?: number;
+}
+
+/**
+ * Thrown when a search backend responds with an error status.
+ */
+export class SearchError extends Error {
+  name = "SearchError";
+
+  constructor(
+    message: string,
+    public readonly status: number,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * A backend that can answer search queries.
+ */
+export interface SearchProvider {
+  /**
+   * @param query - The search query.
+   * @param maxResults - The maximum number of results to return.
+   */
+  search(query: string, maxResults: number): Promise<SearchResult[]>;
+}
+
+/**
+ * Search the web with Tavily. Requires the TAVILY_API_KEY environment variable.
+ */
+export class TavilySearchProvider implements SearchProvider {
+  async search(query: string, maxResults: number): Promise<SearchResult[]> {
+    const tavily = new TavilySearchResults({ maxResults });
+    const output = await tavily.invoke(query);
+    return normalizeResults(JSON.parse(output));
+  }
+}
+
+/**
+ * Search through a generic JSON HTTP endpoint, e.g. an internal search index.
+ *
+ * The endpoint receives a POST request with the body `{ "query": string, "max_results": number }`
+ * and should respond with either a list of results or an object with a `results` list.
+ * Results may use `url` or `link` for the URL and `content`, `snippet` or `text` for the content.
+ */
+export class HttpJsonSearchProvider implements SearchProvider {
+  /**
+   * @param endpoint - The URL of the search endpoint.
+   * @param timeoutMs - How long to wait for the endpoint's response.
+   */
+  constructor(
+    private readonly endpoint: string,
+    private readonly timeoutMs: number,
+  ) {}
+
+  async search(query: string, maxResults: number): Promise<SearchResult[]> {
+    let response: Response;
+    try {
+      response = await fetch(this.endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ query, max_results: maxResults }),
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (e: any) {
+      if (e?.name === "TimeoutError") {
+        throw new SearchError(
+          `Search endpoint ${this.endpoint} timed out after ${this.timeoutMs}ms.`,
+          408,
+        );
+      }
+      throw e;
+    }
+    if (!response.ok) {
+      throw new SearchError(
+        `Search endpoint ${this.endpoint} responded with status ${response.status}.`,
+        response.status,
+      );
+    }
+    return normalizeResults(await response.json());
+  }
+}
+
+/**
+ * Serve search results from a JSON fixture file, for offline tests.
+ *
+ * The file maps queries to result lists. Queries are matched case-insensitively;
+ * the optional "*" entry is returned for queries without their own entry.
+ */
+export class FixtureSearchProvider implements SearchProvider {
+  private fixtures?: Promise<Record<string, AnyRecord[]>>;
+
+  constructor(private readonly path: string) {}
+
+  async search(query: string): Promise<SearchResult[]> {
+    this.fixtures ??= readFile(this.path, "utf8").then((content) => {
+      const parsed = JSON.parse(content) as Record<string, AnyRecord[]>;
+      return Object.fromEntries(
+        Object.entries(parsed).map(([key, results]) => [
+          key.trim().toLowerCase(),
+          results,
+        ]),
+      );
+    });
+    const fixtures = await this.fixtures;
+    return normalizeResults(
+      fixtures[query.trim().toLowerCase()] ?? fixtures["*"] ?? [],
+    );
+  }
+}
+
+/**
+ * Create the search provider selected in the configuration.
+ *
+ * @param configuration - The agent configuration.
+ * @returns The configured search provider.
+ */
+export function createSearchProvider(
+  configuration: typeof ConfigurationAnnotation.State,
+): SearchProvider {
+  switch (configuration.searchProvider) {
+    case "tavily":
+      return new TavilySearchProvider();
+    case "http-json":
+      if (!configuration.searchEndpoint) {
+        throw new Error(
+          'The "http-json" search provider requires a searchEndpoint.',
+        );
+      }
+      return new HttpJsonSearchProvider(
+        configuration.searchEndpoint,
+        configuration.fetchTimeoutMs,
+      );
+    case "fixture":
+      if (!configuration.searchFixturePath) {
+        throw new Error(
+          'The "fixture" search provider requires a searchFixturePath.',
+        );
+      }
+      return new FixtureSearchProvider(configuration.searchFixturePath);
+    default:
+      throw new Error(
+        `Unknown search provider: ${configuration.searchProvider}.`,
+      );
+  }
+}
+
+// Providers are kept per configuration, so a fixture file is only read once.
+const providers = new Map<string, SearchProvider>();
+
+/**
+ * Run a search, applying the configured result limit regardless of the provider.
+ *
+ * @param configuration - The agent configuration.
+ * @param query - The search query.
+ * @returns At most `maxSearchResults` results.
+ */
+export async function search(
+  configuration: typeof ConfigurationAnnotation.State,
+  query: string,
+): Promise<SearchResult[]> {
+  const key = JSON.stringify([
+    configuration.searchProvider,
+    configuration.searchEndpoint,
+    configuration.searchFixturePath,
+    configuration.fetchTimeoutMs,
+  ]);
+  let provider = providers.get(key);
+  if (!provider) {
+    provider = createSearchProvider(configuration);
+    providers.set(key, provider);
+  }
+  const results = await provider.search(query, configuration.maxSearchResults);
+  return results.slice(0, configuration.maxSearchResults);
+}
+
+function normalizeResults(raw: unknown): SearchResult[] {
+  const results = Array.isArray(raw)
+    ? raw
+    : Array.isArray((raw as AnyRecord)?.results)
+      ? (raw as AnyRecord).results
+      : [];
+  return results
+    .map((result: AnyRecord) => ({
+      title: result.title,
+      url: result.url ?? result.link,
+      content: result.content ?? result.snippet ?? result.text ?? "",
+      score: result.score,
+    }))
+    .filter((result: SearchResult) => typeof result.url === "string");
+}
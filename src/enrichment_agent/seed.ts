@@ -0,0 +1,144 @@
+/**
+ * Enrich an existing record instead of starting from scratch.
+ *
+ * The info the graph is invoked with is the seed. Each of its top-level fields
+ * has a policy that decides whether the field is kept, verified or researched
+ * again. The policies are applied through the per-field status the agent
+ * already follows, and the final info is compared against the seed.
+ */
+import { AnyRecord, FieldChange, FieldPolicy, FieldStatus } from "./state.js";
+import { isEmpty } from "./validation.js";
+
+/**
+ * The status of each field before the research starts.
+ *
+ * @param schema - The extraction schema.
+ * @param seed - The seed record.
+ * @param policies - The policy of each field. Unlisted fields use "fill_missing".
+ * @returns Seed values kept under "fill_missing" as accepted, and every other field as needing work.
+ */
+export function seedFieldStatus(
+  schema: AnyRecord,
+  seed: AnyRecord,
+  policies: Record<string, FieldPolicy> | undefined,
+): Record<string, FieldStatus> {
+  const status: Record<string, FieldStatus> = {};
+  for (const field of Object.keys(schema.properties ?? {})) {
+    const value = seed[field];
+    const policy = policies?.[field] ?? "fill_missing";
+    if (isEmpty(value)) {
+      status[field] = {
+        status: "needs_work",
+        instructions: "Missing from the existing record.",
+      };
+    } else if (policy === "fill_missing") {
+      status[field] = { status: "accepted" };
+    } else if (policy === "verify") {
+      status[field] = {
+        status: "needs_work",
+        instructions: `Verify the existing value ${JSON.stringify(value)}. Keep it if sources confirm it, otherwise correct it.`,
+      };
+    } else {
+      status[field] = {
+        status: "needs_work",
+        instructions: `The existing value ${JSON.stringify(value)} is out of date. Research the current value.`,
+      };
+    }
+  }
+  return status;
+}
+
+/**
+ * The fields whose seed value is kept as-is, and must not be changed by reflection.
+ *
+ * @param seed - The seed record, if any.
+ * @param policies - The policy of each field.
+ * @returns The names of the locked fields.
+ */
+export function lockedFields(
+  seed: AnyRecord | undefined,
+  policies: Record<string, FieldPolicy> | undefined,
+): Set<string> {
+  return new Set(
+    Object.keys(seed ?? {}).filter(
+      (field) =>
+        !isEmpty(seed?.[field]) &&
+        (policies?.[field] ?? "fill_missing") === "fill_missing",
+    ),
+  );
+}
+
+/**
+ * The seed record without the values of its "overwrite" fields. Those values
+ * are out of date, so they only become part of the info once the agent finds
+ * the current ones.
+ *
+ * @param seed - The seed record.
+ * @param policies - The policy of each field.
+ * @returns The info to start the research from.
+ */
+export function currentSeedInfo(
+  seed: AnyRecord,
+  policies: Record<string, FieldPolicy> | undefined,
+): AnyRecord {
+  return Object.fromEntries(
+    Object.entries(seed).filter(([field]) => policies?.[field] !== "overwrite"),
+  );
+}
+
+/**
+ * Compare the final info against the seed.
+ *
+ * @param seed - The seed record.
+ * @param info - The final info.
+ * @returns The top-level fields that were added, changed or removed.
+ */
+export function diffInfo(
+  seed: AnyRecord,
+  info: AnyRecord | undefined,
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const [field, after] of Object.entries(info ?? {})) {
+    const before = seed[field];
+    if (isEmpty(after) || isEqual(before, after)) {
+      continue;
+    }
+    changes.push(
+      isEmpty(before)
+        ? { field, kind: "added", after }
+        : { field, kind: "changed", before, after },
+    );
+  }
+  for (const [field, before] of Object.entries(seed)) {
+    if (!isEmpty(before) && isEmpty(info?.[field])) {
+      changes.push({ field, kind: "removed", before });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Deep equality of JSON values. Object keys may be in any order.
+ */
+export function isEqual(left: unknown, right: unknown): boolean {
+  if (Array.isArray(left) && Array.isArray(right)) {
+    return (
+      left.length === right.length &&
+      left.every((value, i) => isEqual(value, right[i]))
+    );
+  }
+  if (
+    left &&
+    right &&
+    typeof left === "object" &&
+    typeof right === "object" &&
+    !Array.isArray(left) &&
+    !Array.isArray(right)
+  ) {
+    const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+    return [...keys].every((key) =>
+      isEqual((left as AnyRecord)[key], (right as AnyRecord)[key]),
+    );
+  }
+  return left === right;
+}
@@ -1,20 +1,194 @@
 import { Annotation, messagesStateReducer } from "@langchain/langgraph";
 import { type BaseMessage } from "@langchain/core/messages";
 
+import { type ExtractionSchema } from "./schema.js";
+import { addUsage, emptyUsage, type TokenUsage } from "./usage.js";
+
 // eslint-disable-next-line
 export type AnyRecord = Record<string, any>;
 
+/**
+ * Why the research loop ended.
+ *
+ * - satisfied: the reflection step accepted the info.
+ * - max_loops: the agent ran out of research loops.
+ * - max_info_calls: the agent submitted info too many times without it being accepted.
+ * - budget: the token or cost budget ran out.
+ * - entity_error: in fan-out mode, the research of at least one entity failed.
+ */
+export type TerminationReason =
+  | "satisfied"
+  | "max_loops"
+  | "max_info_calls"
+  | "budget"
+  | "entity_error";
+
+/**
+ * The reflection step's verdict on a single top-level field of the info.
+ */
+export interface FieldStatus {
+  status: "accepted" | "needs_work";
+  /**
+   * What still needs to be researched, if the field needs work.
+   */
+  instructions?: string;
+}
+
+/**
+ * The reflection step's confidence in a single field, or a single item of an array field.
+ */
+export interface FieldScore {
+  /**
+   * From 0 (a guess) to 1 (certain).
+   */
+  confidence: number;
+  justification: string;
+  /**
+   * Whether the value is supported by the gathered search results or scraped pages.
+   */
+  supportedByEvidence: boolean;
+}
+
+/**
+ * A reviewer's decision on info the reflection step accepted. Only used in review mode.
+ *
+ * - accept: the info is final as-is.
+ * - edit: the given fields are changed and the info is final. Fields set to
+ *   null are cleared. The edited info must match the extraction schema.
+ * - feedback: the info is rejected, and the feedback is sent to the agent.
+ */
+export type Review =
+  | { action: "accept" }
+  | { action: "edit"; info: AnyRecord }
+  | { action: "feedback"; feedback: string };
+
+/**
+ * How a field of the seed record is treated.
+ *
+ * - fill_missing: keep the seed value, and only research the field if it is empty.
+ * - verify: check the seed value against sources, and correct it if it is wrong.
+ * - overwrite: the seed value is out of date. Research the current value. The
+ *   seed value is left out of the info until the agent finds the current one.
+ */
+export type FieldPolicy = "fill_missing" | "verify" | "overwrite";
+
+/**
+ * A top-level field whose final value differs from the seed record.
+ *
+ * A field is "removed" if it has a seed value but none in the final info, for
+ * example an out-of-date value for which no current one was found.
+ */
+export interface FieldChange {
+  field: string;
+  kind: "added" | "changed" | "removed";
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * The outcome of researching a single entity in fan-out mode.
+ */
+export interface EntityResult {
+  entity: string;
+  info?: AnyRecord;
+  provenance?: AnyRecord;
+  terminationReason?: TerminationReason;
+  loopStep?: number;
+  /**
+   * The messages of the entity's run, for the run report.
+   */
+  messages?: BaseMessage[];
+  /**
+   * Set if the entity's run threw.
+   */
+  error?: string;
+}
+
+/**
+ * Merge a new info submission into the current info.
+ *
+ * Objects are merged field by field. Values which are missing or empty in the
+ * update keep their current value, so a later, less complete submission never
+ * erases what an earlier one found. Arrays and primitive values are replaced.
+ *
+ * @param current - The current info.
+ * @param update - The new submission.
+ * @returns The merged info.
+ */
+export function mergeInfo(
+  current: AnyRecord | undefined,
+  update: AnyRecord | undefined,
+): AnyRecord {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const merge = (left: any, right: any): any => {
+    if (right === undefined || right === null || right === "") {
+      return left ?? right;
+    }
+    if (Array.isArray(right)) {
+      return right.length || !Array.isArray(left) ? right : left;
+    }
+    if (
+      typeof right === "object" &&
+      left &&
+      typeof left === "object" &&
+      !Array.isArray(left)
+    ) {
+      const merged = { ...left };
+      for (const [key, value] of Object.entries(right)) {
+        merged[key] = merge(left[key], value);
+      }
+      return merged;
+    }
+    return right;
+  };
+  return merge(current, update);
+}
+
+/**
+ * An info update that replaces the current info instead of being merged into it.
+ */
+export interface InfoReplacement {
+  $replace: AnyRecord;
+}
+
+/**
+ * Merge an info update into the current info, or replace the current info
+ * with an InfoReplacement.
+ */
+export function reduceInfo(
+  current: AnyRecord | undefined,
+  update: AnyRecord | InfoReplacement | undefined,
+): AnyRecord {
+  if (update && "$replace" in update) {
+    return update.$replace;
+  }
+  return mergeInfo(current, update);
+}
+
 export const InputStateAnnotation = Annotation.Root({
   topic: Annotation<string>,
   /**
    * The info state trackes the current extracted data for the given topic,
    * conforming to the provided schema.
+   * Pass an existing (partial) record here to enrich it instead of starting from scratch.
    */
   info: Annotation<AnyRecord>,
   /**
    * The schema defines the information the agent is tasked with filling out.
+   * Either a JSON Schema or a Zod schema of an object. It is checked before
+   * the research starts, and converted to JSON Schema.
    */
-  extractionSchema: Annotation<AnyRecord>,
+  extractionSchema: Annotation<ExtractionSchema>,
+  /**
+   * Opt in to provenance tracking. When enabled, the graph output includes a
+   * `provenance` record citing the sources for each extracted value.
+   */
+  trackProvenance: Annotation<boolean | undefined>,
+  /**
+   * How each top-level field of the input info is treated. Fields that are
+   * not listed default to "fill_missing".
+   */
+  fieldPolicies: Annotation<Record<string, FieldPolicy> | undefined>,
   // Feel free to add additional attributes to your state as needed.
   // Common examples include retrieved documents, extracted entities, API connections, etc.
 });
@@ -64,14 +238,47 @@ export const StateAnnotation = Annotation.Root({
   /**
    * The info state trackes the current extracted data for the given topic,
    * conforming to the provided schema.
+   *
+   * Submissions are merged into the current info (see mergeInfo), so fields
+   * found in earlier loops are kept and missing fields are filled in. A
+   * reviewer's edits replace it (see reduceInfo).
    */
-  info: Annotation<AnyRecord>,
+  info: Annotation<AnyRecord, AnyRecord | InfoReplacement>({
+    reducer: reduceInfo,
+  }),
+
+  /**
+   * The reflection step's verdict on each top-level field of the info.
+   * Accepted fields are kept as-is; the agent focuses on the fields that need work.
+   */
+  fieldStatus: Annotation<Record<string, FieldStatus>>({
+    reducer: (left, right) => ({ ...left, ...right }),
+    default: () => ({}),
+  }),
+
+  /**
+   * The reflection step's confidence in each top-level field, and in each item
+   * of top-level array fields (keyed as "field[index]"), from its latest review.
+   */
+  fieldScores: Annotation<Record<string, FieldScore> | undefined>,
 
   /**
    * The schema defines the information the agent is tasked with filling out.
    */
   extractionSchema: Annotation<AnyRecord>,
 
+  /**
+   * Whether to attribute the extracted info to its sources.
+   */
+  trackProvenance: Annotation<boolean | undefined>,
+
+  /**
+   * Mirrors the structure of `info`, with each leaf value replaced by the list
+   * of search results and scraped pages (URL + snippet) that support it.
+   * Only populated when `trackProvenance` is enabled.
+   */
+  provenance: Annotation<AnyRecord | undefined>,
+
   /**
    * Tracks the number of iterations the agent has gone through in the current session.
    * This can be used to limit the number of iterations or to track progress.
@@ -80,6 +287,97 @@ export const StateAnnotation = Annotation.Root({
     reducer: (left: number, right: number) => left + right,
     default: () => 0,
   }),
+
+  /**
+   * The cumulative token usage and estimated cost of every model call in the run,
+   * including scraping summaries and reflection.
+   */
+  tokenUsage: Annotation<TokenUsage>({
+    reducer: addUsage,
+    default: emptyUsage,
+  }),
+
+  /**
+   * Set once the token or cost budget has run out and the agent was made to
+   * submit its final info.
+   */
+  budgetExhausted: Annotation<boolean>,
+
+  /**
+   * The number of times the agent has submitted info with the Info tool.
+   */
+  infoToolCalls: Annotation<number>({
+    reducer: (left: number, right: number) => left + right,
+    default: () => 0,
+  }),
+
+  /**
+   * The most complete submission seen so far, with its score.
+   * Returned as the final info if the research ends without an accepted submission.
+   */
+  bestInfo: Annotation<{ info: AnyRecord; score: number } | undefined>({
+    reducer: (left, right) =>
+      !left || (right && right.score >= left.score) ? right : left,
+    default: () => undefined,
+  }),
+
+  /**
+   * The reviewer's decision on the accepted info. Set through `graph.updateState`
+   * while the graph is interrupted for review, and cleared once it is applied.
+   */
+  review: Annotation<Review | undefined>,
+
+  /**
+   * How each top-level field of the seed is treated.
+   */
+  fieldPolicies: Annotation<Record<string, FieldPolicy> | undefined>,
+
+  /**
+   * The info the graph was invoked with, before any research.
+   */
+  seed: Annotation<AnyRecord | undefined>,
+
+  /**
+   * The fields whose final value differs from the seed. Only set if the graph
+   * was invoked with info.
+   */
+  changes: Annotation<FieldChange[] | undefined>,
+
+  /**
+   * The entities discovered in fan-out mode.
+   */
+  entities: Annotation<string[] | undefined>,
+
+  /**
+   * The outcome of each entity's research run in fan-out mode.
+   */
+  entityResults: Annotation<EntityResult[]>({
+    reducer: (left, right) => left.concat(right),
+    default: () => [],
+  }),
+
+  /**
+   * Notes condensed from older search and scrape results, when the "compact"
+   * history strategy is used. Included in the prompt in place of those messages.
+   */
+  researchNotes: Annotation<string | undefined>,
+
+  /**
+   * The number of leading messages covered by the research notes. They are kept
+   * in `messages` for the audit trail, but no longer sent to the models.
+   */
+  compactedMessages: Annotation<number | undefined>,
+
+  /**
+   * Why the research loop ended. Set when the graph finishes.
+   */
+  terminationReason: Annotation<TerminationReason | undefined>,
+
+  /**
+   * When the research started and finished, as ISO timestamps.
+   */
+  startedAt: Annotation<string | undefined>,
+  finishedAt: Annotation<string | undefined>,
   // Feel free to add additional attributes to your state as needed.
   // Common examples include retrieved documents, extracted entities, API connections, etc.
 });
@@ -0,0 +1,326 @@
+/**
+ * Pull embedded structured data out of web pages and match it to the
+ * extraction schema.
+ *
+ * Many pages describe themselves in machine-readable form: schema.org JSON-LD,
+ * OpenGraph tags and key-value tables. Values read from this markup are more
+ * reliable than free-form notes, so the ones that match a field of the schema
+ * are handed to the agent as high-confidence candidates.
+ */
+import { decodeEntities } from "./content.js";
+import { isEqual } from "./seed.js";
+import { AnyRecord } from "./state.js";
+
+/**
+ * Where on the page a structured value was found.
+ */
+export type StructuredSource = "json-ld" | "opengraph" | "table";
+
+/**
+ * A value found in the structured data of a page.
+ */
+export interface StructuredValue {
+  source: StructuredSource;
+  /**
+   * The name of the value, e.g. "Organization.founder", "og:site_name" or the
+   * header of a table row or column.
+   */
+  path: string;
+  value: unknown;
+}
+
+/**
+ * A structured value matched to a field of the extraction schema.
+ */
+export interface CandidateValue extends StructuredValue {
+  field: string;
+}
+
+// The maximum number of candidates kept per field.
+const MAX_CANDIDATES = 3;
+
+const SOURCE_LABELS: Record<StructuredSource, string> = {
+  "json-ld": "JSON-LD",
+  opengraph: "OpenGraph",
+  table: "table",
+};
+
+/**
+ * Extract the JSON-LD, OpenGraph tags and tables of an HTML page.
+ *
+ * JSON-LD nodes are flattened into one value per property, named after the
+ * node's type. Tables yield a value per row for two-column (key-value) rows,
+ * and a list of values per column for tables with a header row.
+ *
+ * @param html - The HTML page.
+ * @returns The structured values, in page order per source.
+ */
+export function extractStructuredData(html: string): StructuredValue[] {
+  return [
+    ...extractJsonLd(html),
+    ...extractMetaTags(html),
+    ...extractTables(html),
+  ];
+}
+
+/**
+ * Match structured values to the top-level fields of the extraction schema.
+ *
+ * A value matches a field if its name (the last part of its path, or the
+ * table header) equals the field name, ignoring case, separators and plural
+ * endings. Values are converted to the field's type, and dropped if they
+ * cannot be.
+ *
+ * @param values - The values returned by extractStructuredData.
+ * @param schema - The extraction schema.
+ * @returns Up to three distinct candidates per field.
+ */
+export function matchCandidates(
+  values: StructuredValue[],
+  schema: AnyRecord | undefined,
+): CandidateValue[] {
+  const candidates: CandidateValue[] = [];
+  for (const [field, fieldSchema] of Object.entries(
+    (schema?.properties ?? {}) as Record<string, AnyRecord>,
+  )) {
+    const matches: CandidateValue[] = [];
+    for (const { source, path, value } of values) {
+      // Table headers are names already, e.g. "Founded:".
+      const name = source === "table" ? path : lastSegment(path);
+      if (!sameKey(field, name)) {
+        continue;
+      }
+      const coerced = coerce(value, fieldSchema);
+      if (
+        coerced !== undefined &&
+        !matches.some((match) => isEqual(match.value, coerced))
+      ) {
+        matches.push({ field, source, path, value: coerced });
+      }
+    }
+    candidates.push(...matches.slice(0, MAX_CANDIDATES));
+  }
+  return candidates;
+}
+
+/**
+ * Render candidates as a list for the agent.
+ */
+export function formatCandidates(candidates: CandidateValue[]): string {
+  return candidates
+    .map(
+      ({ field, value, source, path }) =>
+        `- ${field}: ${JSON.stringify(value)} (${SOURCE_LABELS[source]} ${path})`,
+    )
+    .join("\n");
+}
+
+function extractJsonLd(html: string): StructuredValue[] {
+  const values: StructuredValue[] = [];
+  const visit = (node: unknown) => {
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+    if (!isObject(node)) {
+      return;
+    }
+    visit(node["@graph"]);
+    const type = Array.isArray(node["@type"])
+      ? node["@type"][0]
+      : node["@type"];
+    for (const [key, value] of Object.entries(node)) {
+      if (key.startsWith("@")) {
+        continue;
+      }
+      if (typeof type === "string") {
+        values.push({ source: "json-ld", path: `${type}.${key}`, value });
+      }
+      // Nested nodes, e.g. the Organization a WebPage is about.
+      visit(value);
+    }
+  };
+  const scripts = html.matchAll(
+    /<script\b[^>]*type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script\s*>/gi,
+  );
+  for (const [, body] of scripts) {
+    try {
+      visit(JSON.parse(body));
+    } catch {
+      // Malformed JSON-LD is common, and not worth failing the scrape over.
+    }
+  }
+  return values;
+}
+
+function extractMetaTags(html: string): StructuredValue[] {
+  const values: StructuredValue[] = [];
+  for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const property = attribute(tag, "property");
+    const content = attribute(tag, "content");
+    // OpenGraph tags and their extensions, e.g. og:title or business:contact_data:locality.
+    if (property?.includes(":") && content) {
+      values.push({ source: "opengraph", path: property, value: content });
+    }
+  }
+  return values;
+}
+
+function extractTables(html: string): StructuredValue[] {
+  const values: StructuredValue[] = [];
+  for (const [, table] of html.matchAll(
+    /<table\b[^>]*>([\s\S]*?)<\/table\s*>/gi,
+  )) {
+    const rows = [...table.matchAll(/<tr\b[^>]*>([\s\S]*?)<\/tr\s*>/gi)].map(
+      ([, row]) =>
+        [...row.matchAll(/<(t[hd])\b[^>]*>([\s\S]*?)<\/t[hd]\s*>/gi)].map(
+          ([, tag, cell]) => ({
+            header: tag.toLowerCase() === "th",
+            text: cellText(cell),
+          }),
+        ),
+    );
+    const [first, ...rest] = rows;
+    const hasHeaderRow =
+      first?.length > 1 && first.every((cell) => cell.header) && rest.length;
+    if (hasHeaderRow) {
+      first.forEach((column, i) => {
+        const cells = rest.map((row) => row[i]?.text).filter(Boolean);
+        if (column.text && cells.length) {
+          values.push({ source: "table", path: column.text, value: cells });
+        }
+      });
+    }
+    for (const row of hasHeaderRow ? rest : rows) {
+      if (row.length === 2 && row[0].text && row[1].text) {
+        values.push({ source: "table", path: row[0].text, value: row[1].text });
+      }
+    }
+  }
+  return values;
+}
+
+function coerce(value: unknown, schema: AnyRecord): unknown {
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (types.includes("array")) {
+    const items = (Array.isArray(value) ? value : [value])
+      .map((item) => coerce(item, schema.items ?? {}))
+      .filter((item) => item !== undefined);
+    return items.length ? items : undefined;
+  }
+  if (Array.isArray(value)) {
+    // A single value is expected, so only an unambiguous list will do.
+    return value.length === 1 ? coerce(value[0], schema) : undefined;
+  }
+  if (types.includes("number") || types.includes("integer")) {
+    const number =
+      typeof value === "number"
+        ? value
+        : typeof value === "string" && /^-?[\d,]*\.?\d+$/.test(value.trim())
+          ? Number(value.trim().replace(/,/g, ""))
+          : NaN;
+    if (
+      Number.isFinite(number) &&
+      (types.includes("number") || Number.isInteger(number))
+    ) {
+      return number;
+    }
+    return undefined;
+  }
+  if (types.includes("boolean")) {
+    if (typeof value === "boolean") {
+      return value;
+    }
+    const text = String(value).trim().toLowerCase();
+    return ["true", "yes"].includes(text)
+      ? true
+      : ["false", "no"].includes(text)
+        ? false
+        : undefined;
+  }
+  if (types.includes("object")) {
+    return isObject(value) ? stripKeywords(value) : undefined;
+  }
+  if (types.includes("string") || schema.type === undefined) {
+    return toText(value);
+  }
+  return undefined;
+}
+
+// Render a value as text, e.g. a Person as its name and a PostalAddress as
+// its parts separated by commas.
+function toText(value: unknown): string | undefined {
+  if (typeof value === "string") {
+    return value.trim() || undefined;
+  }
+  if (typeof value === "number") {
+    return String(value);
+  }
+  if (Array.isArray(value)) {
+    const parts = value.map(toText).filter(Boolean);
+    return parts.length ? parts.join(", ") : undefined;
+  }
+  if (isObject(value)) {
+    if (typeof value.name === "string") {
+      return toText(value.name);
+    }
+    const parts = Object.entries(value)
+      .filter(([key]) => !key.startsWith("@"))
+      .map(([, part]) => toText(part))
+      .filter(Boolean);
+    return parts.length ? parts.join(", ") : undefined;
+  }
+  return undefined;
+}
+
+function stripKeywords(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(stripKeywords);
+  }
+  if (isObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([key]) => !key.startsWith("@"))
+        .map(([key, part]) => [key, stripKeywords(part)]),
+    );
+  }
+  return value;
+}
+
+function sameKey(field: string, name: string): boolean {
+  const normalize = (key: string) =>
+    key.toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+  const a = normalize(field);
+  const b = normalize(name);
+  return (
+    Boolean(a) &&
+    (a === b ||
+      a === `${b}s` ||
+      b === `${a}s` ||
+      a === `${b}es` ||
+      b === `${a}es`)
+  );
+}
+
+function lastSegment(path: string): string {
+  return path.split(/[.:]/).pop() ?? path;
+}
+
+function attribute(tag: string, name: string): string | undefined {
+  const match = new RegExp(
+    `\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`,
+    "i",
+  ).exec(tag);
+  const value = match?.[1] ?? match?.[2] ?? match?.[3];
+  return value === undefined ? undefined : decodeEntities(value).trim();
+}
+
+function cellText(html: string): string {
+  return decodeEntities(html.replace(/<[^>]+>/g, " "))
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function isObject(value: unknown): value is AnyRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
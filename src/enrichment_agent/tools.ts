@@ -5,14 +5,47 @@
  * These tools can be used for tasks such as web searching and scraping.
  * Users can edit and extend these tools as needed.
  */
-import { TavilySearchResults } from "@langchain/community/tools/tavily_search";
+import { stat } from "fs/promises";
 import { RunnableConfig } from "@langchain/core/runnables";
 import { tool } from "@langchain/core/tools";
 
-import { INFO_PROMPT } from "./prompts.js";
+import {
+  INFO_PROMPT,
+  MERGE_NOTES_PROMPT,
+  STRUCTURED_DATA_PROMPT,
+} from "./prompts.js";
+import { hashValue, withCache } from "./cache.js";
 import { ensureConfiguration } from "./configuration.js";
+import { chunkText, extractReadableText } from "./content.js";
+import {
+  loadCorpus,
+  readDocumentText,
+  resolveDocument,
+  searchCorpus,
+} from "./corpus.js";
+import { isDomainAllowed, rankResults } from "./domains.js";
+import { FetchedPage, fetchPage, FetchRefusedError } from "./fetcher.js";
+import { emitProgress } from "./progress.js";
+import {
+  callModelWithFallbacks,
+  isTransientError,
+  withRetry,
+} from "./retry.js";
+import { search, SearchResult } from "./search.js";
 import { StateAnnotation } from "./state.js";
-import { getTextContent, loadChatModel } from "./utils.js";
+import {
+  extractStructuredData,
+  formatCandidates,
+  matchCandidates,
+} from "./structured.js";
+import {
+  addUsage,
+  emptyUsage,
+  isBudgetExhausted,
+  TokenUsage,
+  usageFromMessage,
+} from "./usage.js";
+import { getTextContent } from "./utils.js";
 import {
   AIMessage,
   isBaseMessage,
@@ -20,54 +53,400 @@ import {
 } from "@langchain/core/messages";
 import { z } from "zod";
 
+/**
+ * Metadata attached to the ToolMessages returned by the tools.
+ */
+export interface ToolArtifact {
+  /**
+   * Whether the result was served from the cache.
+   */
+  cacheHit: boolean;
+  /**
+   * The token usage of any model calls made by the tool.
+   */
+  usage?: TokenUsage;
+}
+
 /**
  * Initialize tools within a function so that they have access to the current
  * state and config at runtime.
  */
-function initializeTools(
+export function initializeTools(
   state?: typeof StateAnnotation.State,
   config?: RunnableConfig,
 ) {
-  /**
-   * Search for general results.
-   *
-   * This function performs a search using the Tavily search engine, which is designed
-   * to provide comprehensive, accurate, and trusted results. It's particularly useful
-   * for answering questions about current events.
-   */
   const configuration = ensureConfiguration(config);
-  const searchTool = new TavilySearchResults({
-    maxResults: configuration.maxSearchResults,
+  // Notes depend on the extraction schema, and on the model, settings and
+  // prompts that wrote them.
+  const notesVersion = hashValue([
+    state?.extractionSchema,
+    configuration.scrapeModel,
+    configuration.scrapeModelParams,
+    configuration.scrapeChunkSize,
+    configuration.maxScrapeChunks,
+    INFO_PROMPT,
+    MERGE_NOTES_PROMPT,
+    STRUCTURED_DATA_PROMPT,
+  ]);
+
+  async function searchWeb({
+    query,
+  }: {
+    query: string;
+  }): Promise<[string, ToolArtifact]> {
+    /**
+     * Search for general results.
+     *
+     * This function performs a search using the configured search provider
+     * (Tavily by default). It's particularly useful for answering questions
+     * about current events.
+     */
+    const key = JSON.stringify([
+      configuration.searchProvider,
+      configuration.searchEndpoint ?? configuration.searchFixturePath ?? "",
+      configuration.maxSearchResults,
+      query.trim().toLowerCase(),
+    ]);
+    const { value, cacheHit } = await withCache(
+      configuration,
+      "search",
+      key,
+      async () =>
+        JSON.stringify(
+          await withRetry(() => search(configuration, query), configuration),
+        ),
+    );
+    // Results are filtered and ranked after the cache, so changes to the
+    // domain lists apply to cached results too.
+    const results = rankResults(
+      JSON.parse(value) as SearchResult[],
+      configuration,
+    );
+    await emitProgress(
+      {
+        type: "search",
+        query,
+        resultCount: results.length,
+        cacheHit,
+      },
+      config,
+    );
+    return [JSON.stringify(results), { cacheHit }];
+  }
+
+  const searchTool = tool(searchWeb, {
+    name: "Search",
+    responseFormat: "content_and_artifact",
+    description:
+      "A search engine optimized for comprehensive, accurate, and trusted results. Useful for when you need to answer questions about current events. Input should be a search query.",
+    schema: z.object({
+      query: z.string().describe("The search query"),
+    }),
   });
 
-  async function scrapeWebsite({ url }: { url: string }): Promise<string> {
+  async function summarizeContent(
+    url: string,
+    content: string,
+  ): Promise<{ notes: string; usage: TokenUsage }> {
     /**
-     * Scrape and summarize content from a given URL.
+     * Summarize the content of a page or document.
+     *
+     * The content is split into chunks. Each chunk is summarized against the
+     * extraction schema, and the notes are merged.
      */
-    const response = await fetch(url);
-    const content = await response.text();
-    const truncatedContent = content.slice(0, 50000);
-    const p = INFO_PROMPT.replace(
-      "{info}",
-      JSON.stringify(state?.extractionSchema, null, 2),
-    )
+    const chunks = chunkText(content, configuration.scrapeChunkSize).slice(
+      0,
+      configuration.maxScrapeChunks,
+    );
+    if (!chunks.length) {
+      throw new Error(`No readable content found at ${url}.`);
+    }
+    const info = JSON.stringify(state?.extractionSchema, null, 2);
+    let usage = emptyUsage();
+    const summarize = (prompt: string) =>
+      callModelWithFallbacks(
+        configuration.scrapeModel,
+        configuration.scrapeModelParams,
+        configuration,
+        async (model, modelName) => {
+          const result = await model.invoke(prompt);
+          usage = addUsage(
+            usage,
+            usageFromMessage(result, modelName, configuration),
+          );
+          return getTextContent(result.content);
+        },
+      );
+
+    const notes = await Promise.all(
+      chunks.map(async (chunk, i) => {
+        const source =
+          chunks.length > 1
+            ? `${url} (part ${i + 1} of ${chunks.length})`
+            : url;
+        const p = INFO_PROMPT.replace("{info}", info)
+          .replace("{url}", source)
+          .replace("{content}", chunk);
+        return summarize(p);
+      }),
+    );
+    if (notes.length === 1) {
+      return { notes: notes[0], usage };
+    }
+
+    const p = MERGE_NOTES_PROMPT.replace("{info}", info)
       .replace("{url}", url)
-      .replace("{content}", truncatedContent);
+      .replace(
+        "{notes}",
+        notes
+          .map((n, i) => `<part index="${i + 1}">\n${n}\n</part>`)
+          .join("\n\n"),
+      );
+    const merged = await summarize(p);
+    return { notes: merged, usage };
+  }
+
+  async function summarizePage(
+    url: string,
+  ): Promise<{ notes: string; usage: TokenUsage; page: FetchedPage }> {
+    /**
+     * Fetch the page, convert it to readable text and summarize it. Values
+     * from the page's structured data that match the extraction schema are
+     * added to the notes.
+     */
+    const page = await withRetry(
+      () => fetchPage(url, configuration),
+      configuration,
+    );
+    const content = extractReadableText(page.body, page.contentType, page.url);
+    const summary = await summarizeContent(url, content);
+    // Values from the page's structured data go to the agent as they are,
+    // next to the notes.
+    const candidates = matchCandidates(
+      extractStructuredData(page.body),
+      state?.extractionSchema,
+    );
+    const notes = candidates.length
+      ? `${summary.notes}\n\n${STRUCTURED_DATA_PROMPT.replace("{candidates}", formatCandidates(candidates))}`
+      : summary.notes;
+    return { notes, usage: summary.usage, page };
+  }
 
-    const rawModel = await loadChatModel(configuration.model);
-    const result = await rawModel.invoke(p);
-    return getTextContent(result.content);
+  async function scrapeWebsite({
+    url,
+  }: {
+    url: string;
+  }): Promise<[string, ToolArtifact]> {
+    /**
+     * Scrape and summarize content from a given URL.
+     *
+     * Notes are cached per URL, extraction schema, scrape model and chunking.
+     */
+    const key = JSON.stringify([url, notesVersion]);
+    let usage = emptyUsage();
+    let page: FetchedPage | undefined;
+    try {
+      // Checked before the cache, so notes cached before a domain was denied are not used.
+      if (!isDomainAllowed(url, configuration)) {
+        throw new FetchRefusedError(
+          `${new URL(url).host} is not an allowed source.`,
+          "denied_domain",
+        );
+      }
+      const { value, cacheHit } = await withCache(
+        configuration,
+        "scrape",
+        key,
+        async () => {
+          const summary = await summarizePage(url);
+          usage = summary.usage;
+          page = summary.page;
+          return summary.notes;
+        },
+      );
+      await emitProgress(
+        {
+          type: "scrape",
+          url,
+          status: "ok",
+          httpStatus: page?.status,
+          size: page?.size,
+          cacheHit,
+        },
+        config,
+      );
+      return [value, { cacheHit, usage }];
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (e: any) {
+      const refused = e?.name === "FetchRefusedError";
+      await emitProgress(
+        {
+          type: "scrape",
+          url,
+          status: refused ? "refused" : "error",
+          cacheHit: false,
+          reason: refused ? e.reason : e?.message,
+        },
+        config,
+      );
+      throw e;
+    }
   }
 
   const scraperTool = tool(scrapeWebsite, {
     name: "scrapeWebsite",
+    responseFormat: "content_and_artifact",
     description: "Scrape content from a given website URL",
     schema: z.object({
       url: z.string().url().describe("The URL of the website to scrape"),
     }),
   });
 
-  return [searchTool, scraperTool];
+  if (!configuration.corpusDir) {
+    return [searchTool, scraperTool];
+  }
+  const corpusDir = configuration.corpusDir;
+
+  async function searchDocuments({
+    query,
+  }: {
+    query: string;
+  }): Promise<[string, ToolArtifact]> {
+    /**
+     * Search the local corpus with BM25.
+     *
+     * Results have the same shape as web search results, with file:// URLs.
+     */
+    const index = await loadCorpus(corpusDir);
+    const results = searchCorpus(index, query, configuration.maxSearchResults);
+    await emitProgress(
+      {
+        type: "search",
+        query,
+        resultCount: results.length,
+        cacheHit: false,
+      },
+      config,
+    );
+    return [JSON.stringify(results), { cacheHit: false }];
+  }
+
+  const searchDocumentsTool = tool(searchDocuments, {
+    name: "SearchDocuments",
+    responseFormat: "content_and_artifact",
+    description:
+      "A keyword search over the user's internal documents (PDFs, markdown and HTML exports). Use it for information that is not on the open web. Input should be a search query.",
+    schema: z.object({
+      query: z.string().describe("The search query"),
+    }),
+  });
+
+  async function readDocument({
+    url,
+  }: {
+    url: string;
+  }): Promise<[string, ToolArtifact]> {
+    /**
+     * Read and summarize a document from the local corpus.
+     *
+     * Notes are cached per document version, extraction schema, scrape model and chunking.
+     */
+    let usage = emptyUsage();
+    try {
+      const filePath = await resolveDocument(corpusDir, url);
+      const { mtimeMs, size } = await stat(filePath);
+      const key = JSON.stringify([url, mtimeMs, notesVersion]);
+      const { value, cacheHit } = await withCache(
+        configuration,
+        "scrape",
+        key,
+        async () => {
+          const summary = await summarizeContent(
+            url,
+            await readDocumentText(filePath),
+          );
+          usage = summary.usage;
+          return summary.notes;
+        },
+      );
+      await emitProgress(
+        { type: "scrape", url, status: "ok", size, cacheHit },
+        config,
+      );
+      return [value, { cacheHit, usage }];
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (e: any) {
+      await emitProgress(
+        {
+          type: "scrape",
+          url,
+          status: "error",
+          cacheHit: false,
+          reason: e?.message,
+        },
+        config,
+      );
+      throw e;
+    }
+  }
+
+  const readDocumentTool = tool(readDocument, {
+    name: "readDocument",
+    responseFormat: "content_and_artifact",
+    description:
+      "Read an internal document found with SearchDocuments and get relevant notes about the given request",
+    schema: z.object({
+      url: z
+        .string()
+        .describe(
+          "The file:// URL of the document, as returned by SearchDocuments",
+        ),
+    }),
+  });
+
+  return [searchTool, scraperTool, searchDocumentsTool, readDocumentTool];
+}
+
+/**
+ * Why a tool call failed.
+ *
+ * - transient: the source failed temporarily (rate limit, server error,
+ *   timeout) and kept failing when retried.
+ * - bad_input: the call was wrong, e.g. invalid arguments or a URL that does not exist.
+ * - blocked: the source may not or cannot be used, e.g. it is disallowed by
+ *   robots.txt, requires a login or is too large.
+ */
+export type ToolErrorKind = "transient" | "bad_input" | "blocked";
+
+const TOOL_ERROR_GUIDANCE: Record<ToolErrorKind, string> = {
+  transient:
+    "This is a temporary problem with the source, not with your request. Use a different source, or try again later.",
+  bad_input: "Please fix your mistakes.",
+  blocked: "This source cannot be used. Use a different source.",
+};
+
+/**
+ * Classify a tool error, so the agent gets accurate guidance on what to do next.
+ */
+export function classifyToolError(e: unknown): ToolErrorKind {
+  if (isTransientError(e)) {
+    return "transient";
+  }
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const error = e as any;
+  if (error?.name !== "FetchRefusedError") {
+    return "bad_input";
+  }
+  switch (error.reason) {
+    case "unsupported_url":
+      return "bad_input";
+    case "http_status":
+      return error.status === 404 || error.status === 410
+        ? "bad_input"
+        : "blocked";
+    default:
+      return "blocked";
+  }
 }
 
 export const toolNode = async (
@@ -79,10 +458,25 @@ export const toolNode = async (
   // have the current state of the graph and the config in scope.
   // See: https://js.langchain.com/docs/how_to/tool_runtime
   const tools = initializeTools(state, config);
+  // Once the budget has run out, don't spend any more on research.
+  // The agent will be asked to submit its info instead.
+  const budgetExhausted = isBudgetExhausted(
+    state.tokenUsage,
+    ensureConfiguration(config),
+  );
   const outputs = await Promise.all(
     (message as AIMessage).tool_calls?.map(async (call) => {
       const tool = tools.find((tool) => tool.name === call.name);
       try {
+        if (budgetExhausted) {
+          return new ToolMessage({
+            content:
+              "Error: The research budget has run out. Submit the info you have.",
+            name: call.name,
+            tool_call_id: call.id ?? "",
+            status: "error",
+          });
+        }
         if (tool === undefined) {
           throw new Error(`Tool "${call.name}" not found.`);
         }
@@ -109,20 +503,22 @@ export const toolNode = async (
         }
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
       } catch (e: any) {
+        // Only blame the model for mistakes it made. Otherwise, tell it
+        // whether to try again later or pick another source.
+        const errorKind = classifyToolError(e);
         return new ToolMessage({
-          content: `Error: ${e.message}\n Please fix your mistakes.`,
+          content: `Error: ${e.message}\n ${TOOL_ERROR_GUIDANCE[errorKind]}`,
           name: call.name,
           tool_call_id: call.id ?? "",
+          artifact: { errorKind, reason: e?.reason },
           status: "error",
         });
       }
     }) ?? [],
   );
 
-  return { messages: outputs };
+  const tokenUsage = outputs
+    .map((output) => ((output as ToolMessage).artifact as ToolArtifact)?.usage)
+    .reduce(addUsage, emptyUsage());
+  return { messages: outputs, tokenUsage };
 };
-
-// No state or config required here since these are just bound to the chat model
-// and are only used to define schema.
-// The tool node above will actually call the functions.
-export const MODEL_TOOLS = initializeTools();
@@ -0,0 +1,147 @@
+/**
+ * Track token usage and cost across the research loop.
+ *
+ * Usage is read from the `usage_metadata` of every model response (agent,
+ * reflection and scraping) and accumulated in the graph state, so that the
+ * configured token and cost budgets can be enforced.
+ */
+import { AIMessage } from "@langchain/core/messages";
+
+import { ConfigurationAnnotation } from "./configuration.js";
+
+/**
+ * Cumulative token usage and cost.
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  /**
+   * Estimated cost in USD, based on the configured model pricing.
+   */
+  costUsd: number;
+}
+
+/**
+ * The price of a model in USD per million tokens.
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+/**
+ * Prices of commonly used models, in USD per million tokens.
+ * Models that are not listed (and not configured in `modelPricing`) are counted as free.
+ */
+export const DEFAULT_MODEL_PRICING: Record<string, ModelPricing> = {
+  "anthropic/claude-3-5-sonnet-20240620": { input: 3, output: 15 },
+  "anthropic/claude-3-opus-20240229": { input: 15, output: 75 },
+  "anthropic/claude-3-sonnet-20240229": { input: 3, output: 15 },
+  "anthropic/claude-3-haiku-20240307": { input: 0.25, output: 1.25 },
+  "openai/gpt-4o": { input: 2.5, output: 10 },
+  "openai/gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "openai/gpt-4-turbo": { input: 10, output: 30 },
+};
+
+/**
+ * @returns Usage with every count set to zero.
+ */
+export function emptyUsage(): TokenUsage {
+  return { inputTokens: 0, outputTokens: 0, totalTokens: 0, costUsd: 0 };
+}
+
+/**
+ * Add two usage records together.
+ */
+export function addUsage(
+  left: TokenUsage | undefined,
+  right: TokenUsage | undefined,
+): TokenUsage {
+  const a = left ?? emptyUsage();
+  const b = right ?? emptyUsage();
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+    costUsd: a.costUsd + b.costUsd,
+  };
+}
+
+/**
+ * Read the token usage of a model response.
+ *
+ * @param message - The model response.
+ * @param model - The fully specified name of the model that produced the response.
+ * @param configuration - The agent configuration, used to look up model pricing.
+ * @returns The usage of the response. Zero if the provider did not report usage.
+ */
+export function usageFromMessage(
+  message: AIMessage,
+  model: string,
+  configuration: Pick<typeof ConfigurationAnnotation.State, "modelPricing">,
+): TokenUsage {
+  const metadata = message.usage_metadata;
+  if (!metadata) {
+    return emptyUsage();
+  }
+  const pricing = configuration.modelPricing[model] ??
+    DEFAULT_MODEL_PRICING[model] ?? { input: 0, output: 0 };
+  return {
+    inputTokens: metadata.input_tokens,
+    outputTokens: metadata.output_tokens,
+    totalTokens: metadata.total_tokens,
+    costUsd:
+      (metadata.input_tokens * pricing.input +
+        metadata.output_tokens * pricing.output) /
+      1_000_000,
+  };
+}
+
+/**
+ * Check whether the research loop has used up its token or cost budget.
+ *
+ * @param usage - The cumulative usage so far.
+ * @param configuration - The agent configuration.
+ * @returns True if either budget is set and has been reached.
+ */
+export function isBudgetExhausted(
+  usage: TokenUsage | undefined,
+  configuration: Pick<
+    typeof ConfigurationAnnotation.State,
+    "tokenBudget" | "costBudgetUsd"
+  >,
+): boolean {
+  const { totalTokens, costUsd } = usage ?? emptyUsage();
+  return (
+    (configuration.tokenBudget !== undefined &&
+      totalTokens >= configuration.tokenBudget) ||
+    (configuration.costBudgetUsd !== undefined &&
+      costUsd >= configuration.costBudgetUsd)
+  );
+}
+
+/**
+ * Split what is left of the token and cost budgets evenly between runs.
+ *
+ * @param usage - The usage so far.
+ * @param configuration - The agent configuration.
+ * @param runs - The number of runs to split the budget between.
+ * @returns The budget of each run. Unset budgets stay unset.
+ */
+export function splitBudget(
+  usage: TokenUsage | undefined,
+  configuration: Pick<
+    typeof ConfigurationAnnotation.State,
+    "tokenBudget" | "costBudgetUsd"
+  >,
+  runs: number,
+): Pick<typeof ConfigurationAnnotation.State, "tokenBudget" | "costBudgetUsd"> {
+  const { totalTokens, costUsd } = usage ?? emptyUsage();
+  const share = (budget: number | undefined, used: number) =>
+    budget === undefined ? undefined : Math.max(budget - used, 0) / runs;
+  return {
+    tokenBudget: share(configuration.tokenBudget, totalTokens),
+    costBudgetUsd: share(configuration.costBudgetUsd, costUsd),
+  };
+}
@@ -35,21 +35,63 @@ export function getTextContent(content: MessageContent): string {
   return "";
 }
 
+/**
+ * Parameters passed to the chat model's constructor.
+ */
+export interface ChatModelParams {
+  temperature?: number;
+  maxTokens?: number;
+  // Any other provider-specific parameters.
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  [key: string]: any;
+}
+
+const registeredChatModels = new Map<
+  string,
+  (params: ChatModelParams) => BaseChatModel
+>();
+
+/**
+ * Register a chat model factory under a fully specified name. loadChatModel
+ * returns models from registered factories instead of initializing them from a provider.
+ *
+ * Useful for custom models, or for swapping in a fake model in tests.
+ *
+ * @param fullySpecifiedName - The name the model is configured with, e.g. 'fake/agent'.
+ * @param factory - Creates the model from its parameters. Pass undefined to unregister.
+ */
+export function registerChatModel(
+  fullySpecifiedName: string,
+  factory: ((params: ChatModelParams) => BaseChatModel) | undefined,
+): void {
+  if (factory) {
+    registeredChatModels.set(fullySpecifiedName, factory);
+  } else {
+    registeredChatModels.delete(fullySpecifiedName);
+  }
+}
+
 /**
  * Load a chat model from a fully specified name.
  * @param fullySpecifiedName - String in the format 'provider/model' or 'provider/account/provider/model'.
+ * @param params - Optional parameters for the model, such as temperature and maxTokens.
  * @returns A Promise that resolves to a BaseChatModel instance.
  */
 export async function loadChatModel(
   fullySpecifiedName: string,
+  params: ChatModelParams = {},
 ): Promise<BaseChatModel> {
+  const registered = registeredChatModels.get(fullySpecifiedName);
+  if (registered) {
+    return registered(params);
+  }
   const index = fullySpecifiedName.indexOf("/");
   if (index === -1) {
     // If there's no "/", assume it's just the model
-    return await initChatModel(fullySpecifiedName);
+    return await initChatModel(fullySpecifiedName, params);
   } else {
     const provider = fullySpecifiedName.slice(0, index);
     const model = fullySpecifiedName.slice(index + 1);
-    return await initChatModel(model, { modelProvider: provider });
+    return await initChatModel(model, { ...params, modelProvider: provider });
   }
 }
@@ -0,0 +1,116 @@
+/**
+ * Validate the agent's submitted info against the user-provided extraction schema.
+ *
+ * The `Info` tool is bound with the extraction schema, but models frequently
+ * ignore parts of it (missing required fields, wrong types, arrays given as
+ * strings, ...). We check each submission before it is sent to reflection.
+ */
+import { Validator } from "@langchain/core/utils/json_schema";
+
+import { AnyRecord } from "./state.js";
+
+/**
+ * A single location in the submitted info that does not conform to the schema.
+ */
+export interface SchemaViolation {
+  /**
+   * JSON pointer to the offending value, e.g. "/products_sold/0".
+   * The root of the info object is "/".
+   */
+  path: string;
+  /**
+   * Human readable description of what is wrong.
+   */
+  message: string;
+}
+
+// Keywords which only report that one of their children failed.
+// The child errors are more specific, so we drop these to keep the feedback focused.
+const WRAPPER_KEYWORDS = new Set([
+  "properties",
+  "items",
+  "prefixItems",
+  "additionalItems",
+  "allOf",
+  "$ref",
+]);
+
+/**
+ * Validate the info against the extraction schema.
+ *
+ * @param schema - The JSON schema the info should conform to.
+ * @param info - The info submitted by the agent.
+ * @returns A list of violations. Empty if the info is valid.
+ */
+export function validateInfo(
+  schema: AnyRecord,
+  info: unknown,
+): SchemaViolation[] {
+  const validator = new Validator(schema, "2019-09", false);
+  const result = validator.validate(info);
+  if (result.valid) {
+    return [];
+  }
+  return result.errors
+    .filter((error) => !WRAPPER_KEYWORDS.has(error.keyword))
+    .map((error) => ({
+      path: error.instanceLocation.replace(/^#/, "") || "/",
+      message: error.error,
+    }));
+}
+
+/**
+ * Format schema violations so they can be returned to the agent.
+ *
+ * @param violations - The violations returned by validateInfo.
+ * @returns A message listing each failing path.
+ */
+export function formatViolations(violations: SchemaViolation[]): string {
+  const lines = violations.map((v) => `- ${v.path}: ${v.message}`);
+  return `The submitted info does not match the extraction schema:
+${lines.join("\n")}
+Please fix these fields and call the Info tool again.`;
+}
+
+/**
+ * Score how complete a submission is, so the best partial result can be kept.
+ *
+ * The score is the fraction of the schema's top-level properties with a
+ * non-empty value, halved if the submission violates the schema.
+ *
+ * @param schema - The extraction schema.
+ * @param info - The submitted info.
+ * @param violations - The violations returned by validateInfo.
+ * @returns A score between 0 and 1.
+ */
+export function scoreInfo(
+  schema: AnyRecord,
+  info: AnyRecord | undefined,
+  violations: SchemaViolation[],
+): number {
+  const properties = Object.keys(schema.properties ?? {});
+  let completeness: number;
+  if (properties.length) {
+    const filled = properties.filter((key) => !isEmpty(info?.[key])).length;
+    completeness = filled / properties.length;
+  } else {
+    completeness = isEmpty(info) ? 0 : 1;
+  }
+  return violations.length ? completeness / 2 : completeness;
+}
+
+/**
+ * Check whether a value is missing, an empty string, or an empty array or object.
+ */
+export function isEmpty(value: unknown): boolean {
+  if (value === undefined || value === null || value === "") {
+    return true;
+  }
+  if (Array.isArray(value)) {
+    return value.length === 0;
+  }
+  if (typeof value === "object") {
+    return Object.keys(value).length === 0;
+  }
+  return false;
+}
@@ -1,5 +1,18 @@
-import { describe, it, expect } from "@jest/globals";
-import { graph } from "../src/enrichment_agent/graph.js";
+import { describe, it, expect, beforeAll, afterAll } from "@jest/globals";
+import { AIMessage, BaseMessage, ToolMessage } from "@langchain/core/messages";
+import { MemorySaver } from "@langchain/langgraph";
+import { randomUUID } from "crypto";
+import { createGraph, graph } from "../src/enrichment_agent/graph.js";
+import { AnyRecord } from "../src/enrichment_agent/state.js";
+import {
+  harnessConfig,
+  PageServer,
+  scriptModels,
+  servePages,
+  toolCall,
+  verdict,
+  writeSearchFixture,
+} from "./harness.js";
 
 describe("Web Research Agent", () => {
   beforeAll(() => {
@@ -10,6 +23,685 @@ describe("Web Research Agent", () => {
     expect(graph).toBeDefined();
     expect(graph.name).toBe("ResearchTopic");
   });
+});
+
+describe("Graph paths", () => {
+  const extractionSchema = {
+    type: "object",
+    properties: {
+      founder: { type: "string" },
+      products_sold: { type: "array", items: { type: "string" } },
+    },
+    required: ["founder"],
+  };
+  const complete = {
+    founder: "Harrison Chase",
+    products_sold: ["LangChain", "LangGraph"],
+  };
+  const topic = "LangChain";
+
+  let pages: PageServer;
+  let searchFixturePath: string;
+
+  beforeAll(async () => {
+    pages = await servePages({
+      "/about": `<main><h1>About</h1><p>LangChain was founded by Harrison Chase.</p></main>`,
+    });
+    searchFixturePath = writeSearchFixture({
+      "*": [
+        {
+          title: "LangChain",
+          url: `${pages.baseUrl}/about`,
+          content: "LangChain sells LangChain and LangGraph.",
+        },
+      ],
+    });
+  });
+
+  afterAll(() => {
+    pages.close();
+  });
+
+  const run = (configurable = {}) =>
+    graph.invoke(
+      { topic, extractionSchema },
+      harnessConfig(searchFixturePath, configurable),
+    );
+
+  it("should search, scrape and submit accepted info", async () => {
+    const models = scriptModels({
+      agent: [
+        toolCall("Search", { query: "LangChain founder" }),
+        toolCall("scrapeWebsite", { url: `${pages.baseUrl}/about` }),
+        toolCall("Info", complete),
+      ],
+      scrape: [new AIMessage("LangChain was founded by Harrison Chase.")],
+      reflection: [verdict({ is_satisfactory: true })],
+    });
+
+    const res = await graph.invoke(
+      { topic, extractionSchema, trackProvenance: true },
+      harnessConfig(searchFixturePath),
+    );
+
+    expect(res.terminationReason).toBe("satisfied");
+    expect(res.info).toEqual(complete);
+    expect(res.loopStep).toBe(3);
+    expect(res.provenance.founder[0]).toMatchObject({
+      url: `${pages.baseUrl}/about`,
+      source: "scrape",
+    });
+    // The scraper summarizes the readable text of the page.
+    expect(models.scrape.calls[0].messages[0].content).toContain(
+      "LangChain was founded by Harrison Chase.",
+    );
+    expect(models.agent.calls[0].tools).toEqual([
+      "Search",
+      "scrapeWebsite",
+      "Info",
+    ]);
+    expect(models.agent.remaining).toBe(0);
+    expect(models.reflection.remaining).toBe(0);
+  });
+
+  it("should report tool errors to the agent", async () => {
+    const models = scriptModels({
+      agent: [
+        toolCall("scrapeWebsite", { url: `${pages.baseUrl}/missing` }),
+        toolCall("Info", complete),
+      ],
+      reflection: [verdict({ is_satisfactory: true })],
+    });
+
+    const res = await run();
+
+    const error = res.messages.find(
+      (m: ToolMessage) => m._getType() === "tool" && m.status === "error",
+    );
+    expect(error.content).toContain("responded with status 404");
+    expect(error.content).toContain("Please fix your mistakes.");
+    expect(error.artifact.errorKind).toBe("bad_input");
+    expect(models.agent.calls[1].messages).toContainEqual(error);
+    expect(res.terminationReason).toBe("satisfied");
+  });
+
+  it("should ask the agent to call a tool if it ignores the tool_choice", async () => {
+    const models = scriptModels({
+      agent: [
+        new AIMessage("I think I know this."),
+        toolCall("Info", complete),
+      ],
+      reflection: [verdict({ is_satisfactory: true })],
+    });
+
+    const res = await run();
+
+    expect(models.agent.calls[1].messages.at(-1)?.content).toBe(
+      "Please respond by calling one of the provided tools.",
+    );
+    expect(res.terminationReason).toBe("satisfied");
+    expect(res.info).toEqual(complete);
+  });
+
+  it("should return schema violations to the agent without reflecting", async () => {
+    const models = scriptModels({
+      agent: [toolCall("Info", { founder: 42 }), toolCall("Info", complete)],
+      reflection: [verdict({ is_satisfactory: true })],
+    });
+
+    const res = await run();
+
+    const violation = models.agent.calls[1].messages.at(-1) as ToolMessage;
+    expect(violation.status).toBe("error");
+    expect(violation.content).toContain("/founder");
+    expect(models.reflection.calls).toHaveLength(1);
+    expect(res.terminationReason).toBe("satisfied");
+  });
+
+  it("should keep researching after an unsatisfactory reflection", async () => {
+    const models = scriptModels({
+      agent: [
+        toolCall("Info", { founder: "Harrison Chase" }),
+        toolCall("Search", { query: "LangChain products" }),
+        toolCall("Info", { products_sold: ["LangChain", "LangGraph"] }),
+      ],
+      reflection: [
+        verdict({
+          is_satisfactory: false,
+          improvement_instructions: "Find the products.",
+          field_feedback: [
+            {
+              field: "founder",
+              status: "accepted",
+              confidence: 0.9,
+              justification: "Stated on the about page.",
+              supported_by_evidence: true,
+            },
+          ],
+        }),
+        verdict({ is_satisfactory: true }),
+      ],
+    });
+
+    const res = await run();
+
+    const feedback = models.agent.calls[1].messages.find(
+      (m) => m._getType() === "tool",
+    );
+    expect(feedback?.content).toContain("Find the products.");
+    // The second submission is merged with the accepted founder.
+    expect(res.info).toEqual(complete);
+    expect(res.terminationReason).toBe("satisfied");
+  });
+
+  describe("with minFieldConfidence", () => {
+    const score = (field: string, confidence: number) => ({
+      field,
+      status: "accepted" as const,
+      confidence,
+      justification: `Confidence ${confidence}.`,
+      supported_by_evidence: true,
+    });
+
+    it("should send fields scored below the threshold back for more research", async () => {
+      const models = scriptModels({
+        agent: [
+          toolCall("Info", { ...complete, founder: "Ankush Gola" }),
+          toolCall("Search", { query: "LangChain founder" }),
+          toolCall("Info", complete),
+        ],
+        reflection: [
+          verdict({
+            is_satisfactory: true,
+            field_feedback: [
+              score("founder", 0.4),
+              score("products_sold", 0.9),
+            ],
+          }),
+          verdict({
+            is_satisfactory: true,
+            field_feedback: [
+              score("founder", 0.8),
+              score("products_sold", 0.9),
+            ],
+          }),
+        ],
+      });
+
+      const res = await run({ minFieldConfidence: 0.7 });
+
+      const feedback = models.agent.calls[1].messages.find(
+        (m) => m._getType() === "tool",
+      );
+      expect(feedback?.content).toContain(
+        "The value of founder is not certain enough (confidence 0.4)",
+      );
+      expect(models.reflection.calls).toHaveLength(2);
+      expect(res.info).toEqual(complete);
+      expect(res.terminationReason).toBe("satisfied");
+      expect(res.fieldScores).toEqual({
+        founder: {
+          confidence: 0.8,
+          justification: "Confidence 0.8.",
+          supportedByEvidence: true,
+        },
+        products_sold: {
+          confidence: 0.9,
+          justification: "Confidence 0.9.",
+          supportedByEvidence: true,
+        },
+      });
+    });
+
+    it("should accept fields scored at or above the threshold", async () => {
+      const models = scriptModels({
+        agent: [toolCall("Info", complete)],
+        reflection: [
+          verdict({
+            is_satisfactory: true,
+            field_feedback: [
+              score("founder", 0.7),
+              score("products_sold", 0.95),
+            ],
+          }),
+        ],
+      });
+
+      const res = await run({ minFieldConfidence: 0.7 });
+
+      expect(models.agent.calls).toHaveLength(1);
+      expect(res.terminationReason).toBe("satisfied");
+      expect(res.fieldScores?.founder.confidence).toBe(0.7);
+      expect(res.fieldStatus.founder.status).toBe("accepted");
+    });
+  });
+
+  it("should stop after maxLoops", async () => {
+    const unsatisfied = verdict({
+      is_satisfactory: false,
+      improvement_instructions: "Keep going.",
+    });
+    scriptModels({
+      agent: [
+        toolCall("Info", { founder: "Harrison Chase" }),
+        toolCall("Info", { founder: "Harrison Chase" }),
+      ],
+      reflection: [unsatisfied, unsatisfied],
+    });
+
+    const res = await run({ maxLoops: 2 });
+
+    expect(res.terminationReason).toBe("max_loops");
+    expect(res.loopStep).toBe(2);
+    expect(res.info).toEqual({ founder: "Harrison Chase" });
+  });
+
+  it("should stop an agent that keeps searching after maxLoops", async () => {
+    const models = scriptModels({
+      agent: [
+        toolCall("Info", { products_sold: complete.products_sold }),
+        ...Array.from({ length: 5 }, () =>
+          toolCall("Search", { query: "LangChain founder" }),
+        ),
+      ],
+    });
+
+    const res = await run({ maxLoops: 3 });
+
+    expect(models.agent.calls).toHaveLength(3);
+    expect(res.terminationReason).toBe("max_loops");
+    expect(res.loopStep).toBe(3);
+    expect(res.info).toEqual({ products_sold: complete.products_sold });
+  });
+
+  it("should return the best submission after maxInfoToolCalls", async () => {
+    scriptModels({
+      agent: [
+        toolCall("Info", {
+          founder: "Harrison Chase",
+          products_sold: "LangChain",
+        }),
+      ],
+    });
+
+    const res = await run({ maxInfoToolCalls: 1 });
+
+    expect(res.terminationReason).toBe("max_info_calls");
+    expect(res.info).toEqual({
+      founder: "Harrison Chase",
+      products_sold: "LangChain",
+    });
+  });
+
+  it("should force a submission once the budget runs out", async () => {
+    const models = scriptModels({
+      agent: [
+        toolCall("Search", { query: "LangChain" }, { input: 100, output: 50 }),
+        toolCall("Info", complete),
+      ],
+    });
+
+    const res = await run({ tokenBudget: 100 });
+
+    const skipped = res.messages.find(
+      (m: AIMessage) => m._getType() === "tool",
+    );
+    expect(skipped.content).toContain("budget has run out");
+    expect(models.agent.calls[1].tools).toEqual(["Info"]);
+    expect(models.agent.calls[1].toolChoice).toBe("Info");
+    expect(res.terminationReason).toBe("budget");
+    expect(res.info).toEqual(complete);
+  });
+
+  it("should return the best submission if the final call under the budget does not submit", async () => {
+    scriptModels({
+      agent: [
+        // Missing the required founder, so it is sent back.
+        toolCall(
+          "Info",
+          { products_sold: complete.products_sold },
+          { input: 100, output: 50 },
+        ),
+        new AIMessage("I could not find anything else."),
+      ],
+    });
+
+    const res = await run({ tokenBudget: 100 });
+
+    expect(res.terminationReason).toBe("budget");
+    expect(res.info).toEqual({ products_sold: complete.products_sold });
+  });
+
+  describe("review mode", () => {
+    // Review mode needs a checkpointer to resume the interrupted thread.
+    const reviewGraph = createGraph({ checkpointer: new MemorySaver() });
+
+    const runUntilReview = async () => {
+      const config = harnessConfig(searchFixturePath, {
+        reviewMode: true,
+        thread_id: randomUUID(),
+      });
+      const res = await reviewGraph.invoke({ topic, extractionSchema }, config);
+      expect(res.terminationReason).toBeUndefined();
+      expect((await reviewGraph.getState(config)).next).toEqual([
+        "humanReview",
+      ]);
+      return config;
+    };
+
+    it("should refuse review mode on a graph without a checkpointer", async () => {
+      const models = scriptModels({});
+
+      await expect(
+        graph.invoke(
+          { topic, extractionSchema },
+          harnessConfig(searchFixturePath, { reviewMode: true }),
+        ),
+      ).rejects.toThrow("reviewMode needs a graph with a checkpointer");
+      expect(models.agent.calls).toHaveLength(0);
+    });
+
+    it("should finish once the reviewer accepts the info", async () => {
+      scriptModels({
+        agent: [toolCall("Info", complete)],
+        reflection: [verdict({ is_satisfactory: true })],
+      });
+      const config = await runUntilReview();
+
+      await reviewGraph.updateState(config, { review: { action: "accept" } });
+      const res = await reviewGraph.invoke(null, config);
+
+      expect(res.terminationReason).toBe("satisfied");
+      expect(res.info).toEqual(complete);
+      expect(res.review).toBeUndefined();
+    });
+
+    it("should apply the reviewer's edits", async () => {
+      scriptModels({
+        agent: [toolCall("Info", complete)],
+        reflection: [verdict({ is_satisfactory: true })],
+      });
+      const config = await runUntilReview();
+
+      await reviewGraph.updateState(config, {
+        review: { action: "edit", info: { products_sold: ["LangSmith"] } },
+      });
+      const res = await reviewGraph.invoke(null, config);
+
+      expect(res.terminationReason).toBe("satisfied");
+      expect(res.info).toEqual({
+        founder: "Harrison Chase",
+        products_sold: ["LangSmith"],
+      });
+      expect(res.fieldStatus.products_sold.status).toBe("accepted");
+    });
+
+    it("should let the reviewer clear fields", async () => {
+      scriptModels({
+        agent: [toolCall("Info", complete)],
+        reflection: [verdict({ is_satisfactory: true })],
+      });
+      const config = await runUntilReview();
+
+      await reviewGraph.updateState(config, {
+        review: { action: "edit", info: { products_sold: null } },
+      });
+      const res = await reviewGraph.invoke(null, config);
+
+      expect(res.terminationReason).toBe("satisfied");
+      expect(res.info).toEqual({ founder: "Harrison Chase" });
+    });
+
+    it("should ask for another review if the edits do not match the schema", async () => {
+      scriptModels({
+        agent: [toolCall("Info", complete)],
+        reflection: [verdict({ is_satisfactory: true })],
+      });
+      const config = await runUntilReview();
+
+      await reviewGraph.updateState(config, {
+        review: { action: "edit", info: { founder: null } },
+      });
+      await reviewGraph.invoke(null, config);
+      const { next, tasks } = await reviewGraph.getState(config);
+      expect(next).toEqual(["humanReview"]);
+      expect(tasks[0].interrupts[0].value).toContain(
+        "does not match the extraction schema",
+      );
 
-  // TODO: Add more test cases for individual nodes, routing logic, tool integration, and output validation
+      await reviewGraph.updateState(config, { review: { action: "accept" } });
+      const res = await reviewGraph.invoke(null, config);
+      expect(res.terminationReason).toBe("satisfied");
+      expect(res.info).toEqual(complete);
+    });
+
+    it("should send the reviewer's feedback to the agent", async () => {
+      const models = scriptModels({
+        agent: [
+          toolCall("Info", complete),
+          toolCall("Info", { ...complete, founder: "Ankush Gola" }),
+        ],
+        reflection: [
+          verdict({ is_satisfactory: true }),
+          verdict({ is_satisfactory: true }),
+        ],
+      });
+      const config = await runUntilReview();
+
+      await reviewGraph.updateState(config, {
+        review: { action: "feedback", feedback: "Check the co-founders." },
+      });
+      await reviewGraph.invoke(null, config);
+      expect((await reviewGraph.getState(config)).next).toEqual([
+        "humanReview",
+      ]);
+      expect(
+        models.agent.calls[1].messages.some((m) =>
+          String(m.content).includes("Check the co-founders."),
+        ),
+      ).toBe(true);
+
+      await reviewGraph.updateState(config, { review: { action: "accept" } });
+      const res = await reviewGraph.invoke(null, config);
+      expect(res.info.founder).toBe("Ankush Gola");
+      expect(res.terminationReason).toBe("satisfied");
+    });
+  });
+
+  it("should discover entities and research each one in fan-out mode", async () => {
+    const providersSchema = {
+      type: "object",
+      properties: {
+        providers: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              name: { type: "string" },
+              market_share: { type: "string" },
+            },
+            required: ["name"],
+          },
+        },
+        overall_market_trends: { type: "string" },
+      },
+    };
+    const shares: Record<string, AnyRecord> = {
+      "NVIDIA Corporation": { name: "NVIDIA", market_share: "80%" },
+      NVIDIA: { name: "NVIDIA" },
+      AMD: { name: "AMD", market_share: "10%" },
+    };
+    // Entities are researched in parallel, so each response is picked
+    // based on the entity in the prompt.
+    const researchEntity = (messages: BaseMessage[]) => {
+      const entity = Object.keys(shares).find((name) =>
+        String(messages[0].content).includes(`${name}, as one of`),
+      ) as string;
+      return toolCall("Info", shares[entity]);
+    };
+    const models = scriptModels({
+      agent: [
+        toolCall("Info", {
+          providers: ["NVIDIA", "AMD", "nvidia", "NVIDIA Corporation"],
+          overall_market_trends: "Growing",
+        }),
+        researchEntity,
+        researchEntity,
+        researchEntity,
+      ],
+      reflection: Array(4).fill(verdict({ is_satisfactory: true })),
+    });
+
+    const res = await graph.invoke(
+      { topic: "AI chip providers", extractionSchema: providersSchema },
+      harnessConfig(searchFixturePath, { fanOutField: "providers" }),
+    );
+
+    expect(res.entities).toEqual(["NVIDIA", "AMD", "NVIDIA Corporation"]);
+    expect(res.info).toEqual({
+      overall_market_trends: "Growing",
+      providers: [
+        { name: "NVIDIA", market_share: "80%" },
+        { name: "AMD", market_share: "10%" },
+      ],
+    });
+    expect(res.entityResults).toHaveLength(3);
+    expect(res.terminationReason).toBe("satisfied");
+    // Discovery only asks for the names of the providers.
+    expect(models.agent.calls[0].messages[0].content as string).toContain(
+      '"maxItems": 10',
+    );
+    expect(models.agent.remaining).toBe(0);
+  });
+
+  it("should not be satisfied if an entity's research fails", async () => {
+    const providersSchema = {
+      type: "object",
+      properties: {
+        providers: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: { name: { type: "string" } },
+            required: ["name"],
+          },
+        },
+      },
+    };
+    const researchEntity = (messages: BaseMessage[]) => {
+      if (String(messages[0].content).includes("AMD, as one of")) {
+        throw new Error("The model is down.");
+      }
+      return toolCall("Info", { name: "NVIDIA" });
+    };
+    scriptModels({
+      agent: [
+        toolCall("Info", { providers: ["NVIDIA", "AMD"] }),
+        researchEntity,
+        researchEntity,
+      ],
+      reflection: Array(2).fill(verdict({ is_satisfactory: true })),
+    });
+
+    const res = await graph.invoke(
+      { topic: "AI chip providers", extractionSchema: providersSchema },
+      harnessConfig(searchFixturePath, { fanOutField: "providers" }),
+    );
+
+    expect(res.info).toEqual({ providers: [{ name: "NVIDIA" }] });
+    expect(res.entityResults).toContainEqual({
+      entity: "AMD",
+      error: "The model is down.",
+    });
+    expect(res.terminationReason).toBe("entity_error");
+  });
+
+  it("should only research the open fields of a seed record", async () => {
+    const models = scriptModels({
+      agent: [
+        toolCall("Info", {
+          founder: "Someone Else",
+          products_sold: ["LangChain", "LangGraph"],
+        }),
+      ],
+      reflection: [
+        verdict({
+          is_satisfactory: true,
+          field_feedback: [
+            {
+              field: "founder",
+              status: "needs_work",
+              confidence: 0.2,
+              justification: "Not checked.",
+              supported_by_evidence: false,
+            },
+          ],
+        }),
+      ],
+    });
+
+    const res = await graph.invoke(
+      {
+        topic,
+        extractionSchema,
+        info: { founder: "Harrison Chase", products_sold: ["LangChain"] },
+        fieldPolicies: { products_sold: "overwrite" },
+      },
+      harnessConfig(searchFixturePath),
+    );
+
+    const progress = models.agent.calls[0].messages.at(-1)?.content as string;
+    expect(progress).toContain('- founder: "Harrison Chase"');
+    expect(progress).toContain(
+      '- products_sold: The existing value ["LangChain"] is out of date.',
+    );
+    // The founder is kept, even though the agent and reflection disagreed.
+    expect(res.info).toEqual(complete);
+    expect(res.fieldStatus.founder.status).toBe("accepted");
+    expect(res.changes).toEqual([
+      {
+        field: "products_sold",
+        kind: "changed",
+        before: ["LangChain"],
+        after: ["LangChain", "LangGraph"],
+      },
+    ]);
+  });
+
+  it("should leave an out-of-date seed value out if the agent omits it", async () => {
+    scriptModels({
+      agent: [toolCall("Info", { founder: "Harrison Chase" })],
+      reflection: [verdict({ is_satisfactory: true })],
+    });
+
+    const res = await graph.invoke(
+      {
+        topic,
+        extractionSchema,
+        info: { founder: "Harrison Chase", products_sold: ["LangChain"] },
+        fieldPolicies: { products_sold: "overwrite" },
+      },
+      harnessConfig(searchFixturePath),
+    );
+
+    expect(res.info).toEqual({ founder: "Harrison Chase" });
+    expect(res.seed).toEqual({
+      founder: "Harrison Chase",
+      products_sold: ["LangChain"],
+    });
+    expect(res.changes).toEqual([
+      { field: "products_sold", kind: "removed", before: ["LangChain"] },
+    ]);
+  });
+
+  it("should fail if the reflection model returns no verdict", async () => {
+    scriptModels({
+      agent: [toolCall("Info", complete)],
+      reflection: [new AIMessage("Looks good to me.")],
+    });
+
+    await expect(run()).rejects.toThrow(
+      "expected the model to return a verdict",
+    );
+  });
 });
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import { mkdtempSync, readFileSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  BatchGraph,
+  loadTopics,
+  runBatch,
+} from "../src/enrichment_agent/batch.js";
+
+describe("Batch enrichment", () => {
+  const extractionSchema = {
+    type: "object",
+    properties: { founder: { type: "string" } },
+  };
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "batch-"));
+  });
+
+  const fakeGraph = (invoked: string[]): BatchGraph => ({
+    invoke: async (input) => {
+      invoked.push(input.topic);
+      if (input.topic === "Broken") {
+        throw new Error("Rate limited");
+      }
+      return { info: { founder: `${input.topic} founder` }, loopStep: 2 };
+    },
+  });
+
+  it("should write one record per topic and resume", async () => {
+    const outputPath = join(dir, "results.jsonl");
+    const invoked: string[] = [];
+    const records = await runBatch({
+      topics: ["LangChain", "Broken", "Anthropic"],
+      extractionSchema,
+      outputPath,
+      concurrency: 2,
+      graph: fakeGraph(invoked),
+    });
+    expect(records).toHaveLength(3);
+    const broken = records.find((r) => r.topic === "Broken");
+    expect(broken?.status).toBe("error");
+    expect(broken?.errors).toEqual(["Rate limited", "Rate limited"]);
+    const written = readFileSync(outputPath, "utf8").trim().split("\n");
+    expect(written).toHaveLength(3);
+    expect(JSON.parse(written[0])).toMatchObject({
+      status: "success",
+      loopStep: 2,
+    });
+
+    // Only the failed topic is researched again.
+    const resumed: string[] = [];
+    await runBatch({
+      topics: ["LangChain", "Broken", "Anthropic"],
+      extractionSchema,
+      outputPath,
+      graph: fakeGraph(resumed),
+    });
+    expect(resumed).toEqual(["Broken", "Broken"]);
+  });
+
+  it("should refuse review mode", async () => {
+    const invoked: string[] = [];
+    await expect(
+      runBatch({
+        topics: ["LangChain"],
+        extractionSchema,
+        outputPath: join(dir, "results.jsonl"),
+        graph: fakeGraph(invoked),
+        config: { configurable: { reviewMode: true } },
+      }),
+    ).rejects.toThrow("Batch runs do not support reviewMode.");
+    expect(invoked).toEqual([]);
+  });
+
+  it("should load topics from JSONL and CSV files", async () => {
+    const jsonl = join(dir, "topics.jsonl");
+    writeFileSync(jsonl, '"LangChain"\n{"topic": "Anthropic"}\n');
+    expect(await loadTopics(jsonl)).toEqual(["LangChain", "Anthropic"]);
+
+    const csv = join(dir, "topics.csv");
+    writeFileSync(csv, 'id,topic\n1,LangChain\n2,"Acme, Inc."\n');
+    expect(await loadTopics(csv)).toEqual(["LangChain", "Acme, Inc."]);
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, jest } from "@jest/globals";
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { AIMessage, ToolMessage } from "@langchain/core/messages";
+import { hashValue, withCache } from "../src/enrichment_agent/cache.js";
+import { ensureConfiguration } from "../src/enrichment_agent/configuration.js";
+import { toolNode } from "../src/enrichment_agent/tools.js";
+import { registerChatModel } from "../src/enrichment_agent/utils.js";
+import {
+  harnessConfig,
+  ScriptedChatModel,
+  scriptModels,
+  servePages,
+  writeSearchFixture,
+} from "./harness.js";
+
+describe("Cache", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "cache-"));
+  });
+
+  it("should serve repeated computations from the cache", async () => {
+    const configuration = ensureConfiguration({
+      configurable: { cacheDir: dir },
+    });
+    let calls = 0;
+    const compute = async () => `result ${++calls}`;
+    expect(await withCache(configuration, "search", "q", compute)).toEqual({
+      value: "result 1",
+      cacheHit: false,
+    });
+    expect(await withCache(configuration, "search", "q", compute)).toEqual({
+      value: "result 1",
+      cacheHit: true,
+    });
+
+    const bypass = { ...configuration, bypassCache: true };
+    expect(await withCache(bypass, "search", "q", compute)).toEqual({
+      value: "result 2",
+      cacheHit: false,
+    });
+    expect(await withCache(configuration, "search", "q", compute)).toEqual({
+      value: "result 2",
+      cacheHit: true,
+    });
+
+    const disabled = { ...configuration, searchCacheTtlSeconds: 0 };
+    expect(await withCache(disabled, "search", "q", compute)).toEqual({
+      value: "result 3",
+      cacheHit: false,
+    });
+  });
+
+  it("should still return the value if it cannot be cached", async () => {
+    // A file where the cache directory should be, so it cannot be created.
+    const cacheDir = join(dir, "not-a-directory");
+    writeFileSync(cacheDir, "");
+    const configuration = ensureConfiguration({ configurable: { cacheDir } });
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    try {
+      expect(
+        await withCache(configuration, "search", "q", async () => "result"),
+      ).toEqual({ value: "result", cacheHit: false });
+      expect(warn).toHaveBeenCalledWith(
+        `Could not write to the cache in ${cacheDir}:`,
+        expect.anything(),
+      );
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  it("should hash equivalent schemas identically", () => {
+    expect(hashValue({ a: 1, b: [{ c: 2, d: 3 }] })).toBe(
+      hashValue({ b: [{ d: 3, c: 2 }], a: 1 }),
+    );
+    expect(hashValue({ a: 1 })).not.toBe(hashValue({ a: 2 }));
+  });
+
+  it("should record cache hits on search tool messages", async () => {
+    const fixturePath = join(dir, "search.json");
+    writeFileSync(
+      fixturePath,
+      JSON.stringify({
+        "*": [{ url: "https://example.com", content: "Example" }],
+      }),
+    );
+    const config = {
+      configurable: {
+        searchProvider: "fixture",
+        searchFixturePath: fixturePath,
+        cacheDir: join(dir, "cache"),
+      },
+    };
+    const state = {
+      messages: [
+        new AIMessage({
+          content: "",
+          tool_calls: [
+            { id: "call_1", name: "Search", args: { query: "LangChain" } },
+          ],
+        }),
+      ],
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } as any;
+    const first = await toolNode(state, config);
+    const second = await toolNode(state, config);
+    const [miss] = first.messages as ToolMessage[];
+    const [hit] = second.messages as ToolMessage[];
+    expect(miss.artifact).toEqual({ cacheHit: false });
+    expect(hit.artifact).toEqual({ cacheHit: true });
+    expect(hit.content).toBe(miss.content);
+  });
+
+  it("should cache scraped notes per scrape model and settings", async () => {
+    const pages = await servePages({
+      "/about":
+        "<html><body><p>Acme was founded by Jane Doe.</p></body></html>",
+    });
+    const models = scriptModels({
+      scrape: [
+        new AIMessage("Founded by Jane Doe."),
+        new AIMessage("Jane Doe founded it."),
+      ],
+    });
+    const other = new ScriptedChatModel("test/other-scrape", [
+      new AIMessage("Jane Doe founded Acme."),
+    ]);
+    registerChatModel("test/other-scrape", () => other);
+    const state = {
+      messages: [
+        new AIMessage({
+          content: "",
+          tool_calls: [
+            {
+              id: "call_1",
+              name: "scrapeWebsite",
+              args: { url: `${pages.baseUrl}/about` },
+            },
+          ],
+        }),
+      ],
+      extractionSchema: {
+        type: "object",
+        properties: { founder: { type: "string" } },
+      },
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } as any;
+    const config = harnessConfig(writeSearchFixture({}), { cacheDir: dir });
+    try {
+      const results = [
+        await toolNode(state, config),
+        await toolNode(state, config),
+        await toolNode(state, {
+          configurable: {
+            ...config.configurable,
+            scrapeModel: "test/other-scrape",
+          },
+        }),
+        await toolNode(state, {
+          configurable: { ...config.configurable, scrapeChunkSize: 500 },
+        }),
+      ].map(({ messages }) => (messages as ToolMessage[])[0].artifact.cacheHit);
+      expect(results).toEqual([false, true, false, false]);
+      expect(models.scrape.calls).toHaveLength(2);
+      expect(other.calls).toHaveLength(1);
+    } finally {
+      pages.close();
+      registerChatModel("test/other-scrape", undefined);
+    }
+  });
+});
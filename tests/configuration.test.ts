@@ -1,5 +1,20 @@
-import { describe, it, expect } from "@jest/globals";
+import { describe, it, expect, afterAll, beforeAll } from "@jest/globals";
+import { AIMessage } from "@langchain/core/messages";
 import { ensureConfiguration } from "../src/enrichment_agent/configuration.js";
+import { graph } from "../src/enrichment_agent/graph.js";
+import {
+  ChatModelParams,
+  registerChatModel,
+} from "../src/enrichment_agent/utils.js";
+import {
+  harnessConfig,
+  PageServer,
+  ScriptedChatModel,
+  servePages,
+  toolCall,
+  verdict,
+  writeSearchFixture,
+} from "./harness.js";
 
 describe("Configuration", () => {
   it("should initialize configuration from an empty object", () => {
@@ -8,4 +23,96 @@ describe("Configuration", () => {
     expect(result).toBeDefined();
     expect(typeof result).toBe("object");
   });
+
+  it("should fall back to the default model for each role", () => {
+    const result = ensureConfiguration({
+      configurable: {
+        model: "openai/gpt-4o",
+        modelParams: { temperature: 0 },
+        scrapeModel: "openai/gpt-4o-mini",
+        scrapeModelParams: { maxTokens: 1024 },
+      },
+    });
+    expect(result.agentModel).toBe("openai/gpt-4o");
+    expect(result.agentModelParams).toEqual({ temperature: 0 });
+    expect(result.reflectionModel).toBe("openai/gpt-4o");
+    expect(result.scrapeModel).toBe("openai/gpt-4o-mini");
+    expect(result.scrapeModelParams).toEqual({ maxTokens: 1024 });
+  });
+
+  describe("in a run", () => {
+    const names = ["test/agent", "test/reflection", "test/scrape"];
+    let pages: PageServer;
+
+    beforeAll(async () => {
+      pages = await servePages({
+        "/about": "<html><body><p>Founded by Jane Doe.</p></body></html>",
+      });
+    });
+
+    afterAll(() => {
+      pages.close();
+      for (const name of names) {
+        registerChatModel(name, undefined);
+      }
+    });
+
+    it("should use each step's model with its own params", async () => {
+      const url = `${pages.baseUrl}/about`;
+      const [agent, reflection, scrape] = [
+        new ScriptedChatModel("test/agent", [
+          toolCall("scrapeWebsite", { url }),
+          toolCall("Info", { founder: "Jane Doe" }),
+        ]),
+        new ScriptedChatModel("test/reflection", [
+          verdict({ is_satisfactory: true }),
+        ]),
+        new ScriptedChatModel("test/scrape", [
+          new AIMessage("Acme was founded by Jane Doe."),
+        ]),
+      ];
+      const params: Record<string, ChatModelParams[]> = {};
+      [agent, reflection, scrape].forEach((model, i) => {
+        params[names[i]] = [];
+        registerChatModel(names[i], (p) => {
+          params[names[i]].push(p);
+          return model;
+        });
+      });
+
+      const state = await graph.invoke(
+        {
+          topic: "Acme",
+          extractionSchema: {
+            type: "object",
+            properties: { founder: { type: "string" } },
+          },
+        },
+        harnessConfig(writeSearchFixture({}), {
+          agentModel: "test/agent",
+          agentModelParams: { temperature: 0.1 },
+          reflectionModel: "test/reflection",
+          reflectionModelParams: { temperature: 0.2 },
+          scrapeModel: "test/scrape",
+          scrapeModelParams: { maxTokens: 512 },
+        }),
+      );
+
+      expect(state.info).toEqual({ founder: "Jane Doe" });
+      expect(agent.calls).toHaveLength(2);
+      expect(agent.calls[0].tools).toContain("scrapeWebsite");
+      expect(reflection.calls).toHaveLength(1);
+      expect(reflection.calls[0].tools).toEqual(["extract"]);
+      expect(scrape.calls).toHaveLength(1);
+      expect(scrape.calls[0].messages[0].content).toContain("Jane Doe");
+      expect(params).toEqual({
+        "test/agent": [
+          { temperature: 0.1, maxRetries: 0 },
+          { temperature: 0.1, maxRetries: 0 },
+        ],
+        "test/reflection": [{ temperature: 0.2, maxRetries: 0 }],
+        "test/scrape": [{ maxTokens: 512, maxRetries: 0 }],
+      });
+    });
+  });
 });
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  chunkText,
+  extractReadableText,
+  htmlToText,
+} from "../src/enrichment_agent/content.js";
+
+describe("Content extraction", () => {
+  it("should keep headings, tables and links and drop boilerplate", () => {
+    const html = `<!doctype html>
+<html>
+  <head><title>Acme</title><style>body { color: red; }</style></head>
+  <body>
+    <nav><a href="/">Home</a> <a href="/pricing">Pricing</a></nav>
+    <main>
+      <h1>About Acme</h1>
+      <script>track("pageview");</script>
+      <p>Acme was founded by <a href="/team/jane">Jane Doe</a> &amp; friends.</p>
+      <table>
+        <tr><th>Product</th><th>Price</th></tr>
+        <tr><td>Rockets</td><td>$10</td></tr>
+      </table>
+      <ul><li>Anvils</li><li>Magnets</li></ul>
+    </main>
+    <footer>Copyright Acme</footer>
+  </body>
+</html>`;
+    const text = htmlToText(html, "https://acme.com/about");
+    expect(text).toBe(`# About Acme
+
+Acme was founded by [Jane Doe](https://acme.com/team/jane) & friends.
+
+| Product | Price |
+| Rockets | $10 |
+
+- Anvils
+- Magnets`);
+  });
+
+  it("should keep pages wrapped in a form and drop small forms", () => {
+    const html = `<!doctype html>
+<html>
+  <body>
+    <form role="search"><input name="q" /><button>Search</button></form>
+    <form method="post" action="./About.aspx" id="aspnetForm">
+      <input type="hidden" name="__VIEWSTATE" value="dDwtMTA4MzE0MjEwNTs7Pg==" />
+      <h1>About Acme</h1>
+      <p>Acme was founded in 1999 by Jane Doe and makes anvils, rockets and
+      magnets for customers in the cartoon industry. The company is based in
+      Springfield and has 1,200 employees across three continents.</p>
+    </form>
+  </body>
+</html>`;
+    expect(htmlToText(html, "https://acme.com/About.aspx")).toBe(`# About Acme
+
+Acme was founded in 1999 by Jane Doe and makes anvils, rockets and
+magnets for customers in the cartoon industry. The company is based in
+Springfield and has 1,200 employees across three continents.`);
+  });
+
+  it("should handle non-HTML content types", () => {
+    expect(
+      extractReadableText('{"name":"Acme"}', "application/json", "https://a"),
+    ).toBe('{\n  "name": "Acme"\n}');
+    expect(
+      extractReadableText(" plain text ", "text/plain; charset=utf-8", ""),
+    ).toBe("plain text");
+    expect(() =>
+      extractReadableText("%PDF-1.4", "application/pdf", "https://a"),
+    ).toThrow("Unsupported content type");
+  });
+
+  it("should split long text at paragraph boundaries", () => {
+    const text = ["a".repeat(60), "b".repeat(30), "c".repeat(50)].join("\n\n");
+    expect(chunkText(text, 100)).toEqual([
+      `${"a".repeat(60)}\n\n${"b".repeat(30)}`,
+      "c".repeat(50),
+    ]);
+    expect(chunkText("short", 100)).toEqual(["short"]);
+  });
+});
@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeAll } from "@jest/globals";
+import { AIMessage } from "@langchain/core/messages";
+import { mkdirSync, mkdtempSync, symlinkSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { pathToFileURL } from "url";
+import {
+  listDocuments,
+  loadCorpus,
+  readDocumentText,
+  resolveDocument,
+  searchCorpus,
+} from "../src/enrichment_agent/corpus.js";
+import { graph } from "../src/enrichment_agent/graph.js";
+import {
+  harnessConfig,
+  scriptModels,
+  toolCall,
+  verdict,
+  writeSearchFixture,
+} from "./harness.js";
+
+describe("Local corpus", () => {
+  let corpusDir: string;
+
+  beforeAll(() => {
+    corpusDir = mkdtempSync(join(tmpdir(), "corpus-"));
+    mkdirSync(join(corpusDir, "exports"));
+    mkdirSync(join(corpusDir, ".git"));
+    writeFileSync(
+      join(corpusDir, "acme.md"),
+      "# Acme Corp\n\nAcme Corp was founded in 1999 by Jane Doe. Acme sells anvils.",
+    );
+    writeFileSync(
+      join(corpusDir, "exports", "globex.html"),
+      "<html><body><main><h1>Globex</h1><p>Globex was founded by Hank Scorpio.</p></main></body></html>",
+    );
+    writeFileSync(join(corpusDir, "notes.txt"), "Anvils, anvils and anvils.");
+    writeFileSync(join(corpusDir, "image.png"), "not a document");
+    writeFileSync(join(corpusDir, ".git", "HEAD"), "ref: refs/heads/main");
+  });
+
+  it("should only index supported documents", async () => {
+    expect(await listDocuments(corpusDir)).toEqual([
+      join(corpusDir, "acme.md"),
+      join(corpusDir, "exports", "globex.html"),
+      join(corpusDir, "notes.txt"),
+    ]);
+  });
+
+  it("should rank documents with BM25", async () => {
+    const index = await loadCorpus(corpusDir);
+
+    const founders = searchCorpus(index, "Who founded Globex?", 5);
+    expect(founders[0]).toMatchObject({
+      title: join("exports", "globex.html"),
+      url: pathToFileURL(join(corpusDir, "exports", "globex.html")).href,
+    });
+    // HTML is converted to readable text.
+    expect(founders[0].content).not.toContain("<p>");
+
+    const anvils = searchCorpus(index, "anvils", 5);
+    expect(anvils.map((result) => result.title)).toEqual([
+      "notes.txt",
+      "acme.md",
+    ]);
+    expect(searchCorpus(index, "anvils", 1)).toHaveLength(1);
+    expect(searchCorpus(index, "spaceships", 5)).toEqual([]);
+  });
+
+  it("should rebuild the index when a document changes", async () => {
+    const before = await loadCorpus(corpusDir);
+    expect(await loadCorpus(corpusDir)).toBe(before);
+
+    writeFileSync(join(corpusDir, "initech.md"), "Initech makes TPS reports.");
+    const after = await loadCorpus(corpusDir);
+    expect(after).not.toBe(before);
+    expect(searchCorpus(after, "TPS reports", 5)[0].title).toBe("initech.md");
+  });
+
+  it("should only resolve documents within the corpus", async () => {
+    const acme = join(corpusDir, "acme.md");
+    expect(await resolveDocument(corpusDir, pathToFileURL(acme).href)).toBe(
+      acme,
+    );
+    expect(await resolveDocument(corpusDir, "acme.md")).toBe(acme);
+    await expect(resolveDocument(corpusDir, "../secrets.md")).rejects.toThrow(
+      "is not a document in the corpus",
+    );
+    await expect(resolveDocument(corpusDir, "missing.md")).rejects.toThrow(
+      "not found",
+    );
+    await expect(resolveDocument(corpusDir, "image.png")).rejects.toThrow(
+      "not a supported document type",
+    );
+  });
+
+  it("should not follow symlinks out of the corpus", async () => {
+    const outside = mkdtempSync(join(tmpdir(), "outside-"));
+    writeFileSync(join(outside, "secrets.md"), "The launch codes.");
+    symlinkSync(join(outside, "secrets.md"), join(corpusDir, "linked.md"));
+    symlinkSync(outside, join(corpusDir, "linked"));
+
+    for (const reference of ["linked.md", "linked/secrets.md"]) {
+      await expect(resolveDocument(corpusDir, reference)).rejects.toThrow(
+        "is not a document in the corpus",
+      );
+    }
+    expect(await listDocuments(corpusDir)).not.toContain(
+      join(corpusDir, "linked.md"),
+    );
+  });
+
+  it("should read PDFs", async () => {
+    const pdfPath = join(mkdtempSync(join(tmpdir(), "pdf-")), "initech.pdf");
+    writeFileSync(pdfPath, minimalPdf("Initech was founded by Bill Lumbergh."));
+    expect(await readDocumentText(pdfPath)).toBe(
+      "Initech was founded by Bill Lumbergh.",
+    );
+  });
+
+  it("should let the agent search and read documents, and cite them", async () => {
+    const url = pathToFileURL(join(corpusDir, "acme.md")).href;
+    const models = scriptModels({
+      agent: [
+        toolCall("SearchDocuments", { query: "Acme founder" }),
+        toolCall("readDocument", { url }),
+        toolCall("Info", { founder: "Jane Doe" }),
+      ],
+      scrape: [new AIMessage("Acme Corp was founded by Jane Doe in 1999.")],
+      reflection: [verdict({ is_satisfactory: true })],
+    });
+
+    const state = await graph.invoke(
+      {
+        topic: "Acme Corp",
+        extractionSchema: {
+          type: "object",
+          properties: { founder: { type: "string" } },
+        },
+        trackProvenance: true,
+      },
+      harnessConfig(writeSearchFixture({}), { corpusDir }),
+    );
+
+    expect(models.agent.calls[0].tools).toEqual(
+      expect.arrayContaining(["SearchDocuments", "readDocument"]),
+    );
+    expect(models.agent.calls[0].messages[0].content).toContain(
+      "`SearchDocuments`: search the internal documents",
+    );
+    // The document goes through the same summarization as scraped pages.
+    const prompt = models.scrape.calls[0].messages[0].content as string;
+    expect(prompt).toContain(url);
+    expect(prompt).toContain("Acme sells anvils.");
+    expect(state.info).toEqual({ founder: "Jane Doe" });
+    expect(state.provenance?.founder).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ url, source: "scrape" }),
+        expect.objectContaining({ url, source: "search" }),
+      ]),
+    );
+  });
+
+  it("should only offer the corpus tools if a corpus is configured", async () => {
+    const models = scriptModels({
+      agent: [toolCall("Info", { founder: "Jane Doe" })],
+      reflection: [verdict({ is_satisfactory: true })],
+    });
+
+    await graph.invoke(
+      {
+        topic: "Acme Corp",
+        extractionSchema: {
+          type: "object",
+          properties: { founder: { type: "string" } },
+        },
+      },
+      harnessConfig(writeSearchFixture({})),
+    );
+
+    expect(models.agent.calls[0].tools).not.toContain("SearchDocuments");
+    expect(models.agent.calls[0].tools).not.toContain("readDocument");
+    expect(models.agent.calls[0].messages[0].content).not.toContain(
+      "SearchDocuments",
+    );
+  });
+});
+
+// A one-page PDF showing the given line of text.
+function minimalPdf(text: string): string {
+  const content = `BT /F1 12 Tf 72 720 Td (${text}) Tj ET`;
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    "<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>",
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>",
+  ];
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((object, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets
+    .map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`)
+    .join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return pdf;
+}
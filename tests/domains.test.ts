@@ -0,0 +1,146 @@
+import { describe, it, expect } from "@jest/globals";
+import { ToolMessage } from "@langchain/core/messages";
+import { ensureConfiguration } from "../src/enrichment_agent/configuration.js";
+import {
+  formatSourceTrust,
+  isDomainAllowed,
+  rankResults,
+  sourceTrust,
+  trustScore,
+} from "../src/enrichment_agent/domains.js";
+import { graph } from "../src/enrichment_agent/graph.js";
+import {
+  harnessConfig,
+  scriptModels,
+  toolCall,
+  verdict,
+  writeSearchFixture,
+} from "./harness.js";
+
+describe("Domain lists", () => {
+  const configuration = ensureConfiguration({
+    configurable: {
+      deniedDomains: ["contentfarm.com"],
+      preferredDomains: ["https://www.sec.gov/"],
+      domainTrust: { "wikipedia.org": 0.7, "old.wikipedia.org": 0.2 },
+    },
+  });
+
+  it("should refuse denied domains and their subdomains", () => {
+    expect(isDomainAllowed("https://contentfarm.com/a", configuration)).toBe(
+      false,
+    );
+    expect(
+      isDomainAllowed("https://blog.contentfarm.com/a", configuration),
+    ).toBe(false);
+    expect(isDomainAllowed("https://notcontentfarm.com/a", configuration)).toBe(
+      true,
+    );
+    expect(isDomainAllowed("file:///docs/acme.md", configuration)).toBe(true);
+  });
+
+  it("should only allow listed domains if there is an allowlist", () => {
+    const allowlist = ensureConfiguration({
+      configurable: { allowedDomains: ["*.acme.com"] },
+    });
+    expect(isDomainAllowed("https://www.acme.com/about", allowlist)).toBe(true);
+    expect(isDomainAllowed("https://investors.acme.com", allowlist)).toBe(true);
+    expect(isDomainAllowed("https://example.com", allowlist)).toBe(false);
+  });
+
+  it("should score domains by the most specific setting", () => {
+    expect(trustScore("https://www.sec.gov/filing", configuration)).toBe(0.9);
+    expect(
+      trustScore("https://en.wikipedia.org/wiki/Acme", configuration),
+    ).toBe(0.7);
+    expect(trustScore("https://old.wikipedia.org/Acme", configuration)).toBe(
+      0.2,
+    );
+    expect(trustScore("https://example.com", configuration)).toBe(0.5);
+  });
+
+  it("should filter search results and rank them by trust", () => {
+    const results = [
+      { url: "https://example.com/a", content: "" },
+      { url: "https://contentfarm.com/b", content: "" },
+      { url: "https://old.wikipedia.org/c", content: "" },
+      { url: "https://sec.gov/d", content: "" },
+      { url: "https://example.org/e", content: "" },
+    ];
+    expect(
+      rankResults(results, configuration).map((result) => result.url),
+    ).toEqual([
+      "https://sec.gov/d",
+      "https://example.com/a",
+      "https://example.org/e",
+      "https://old.wikipedia.org/c",
+    ]);
+  });
+
+  it("should list the trust of each source domain, least trusted first", () => {
+    const domains = sourceTrust(
+      [
+        { url: "https://sec.gov/d", text: "", source: "scrape" },
+        { url: "https://old.wikipedia.org/c", text: "", source: "search" },
+        { url: "https://old.wikipedia.org/f", text: "", source: "search" },
+      ],
+      configuration,
+    );
+    expect(formatSourceTrust(domains)).toBe(
+      [
+        "- old.wikipedia.org: trust 0.2 (2 sources)",
+        "- sec.gov: trust 0.9 (1 source)",
+      ].join("\n"),
+    );
+  });
+
+  describe("in a run", () => {
+    it("should drop denied results, refuse to scrape them and report trust to reflect", async () => {
+      const models = scriptModels({
+        agent: [
+          toolCall("Search", { query: "Acme founder" }),
+          toolCall("scrapeWebsite", { url: "https://contentfarm.com/acme" }),
+          toolCall("Info", { founder: "Jane Doe" }),
+        ],
+        reflection: [verdict({ is_satisfactory: true })],
+      });
+      const searchFixturePath = writeSearchFixture({
+        "*": [
+          { url: "https://contentfarm.com/acme", content: "Jane Doe" },
+          { url: "https://acme.com/about", content: "Founded by Jane Doe" },
+        ],
+      });
+
+      const state = await graph.invoke(
+        {
+          topic: "Acme",
+          extractionSchema: {
+            type: "object",
+            properties: { founder: { type: "string" } },
+          },
+        },
+        harnessConfig(searchFixturePath, {
+          deniedDomains: ["contentfarm.com"],
+          domainTrust: { "acme.com": 0.3 },
+        }),
+      );
+
+      const [search, scrape] = state.messages.filter(
+        (m: ToolMessage) => m._getType() === "tool",
+      );
+      expect(JSON.parse(search.content)).toEqual([
+        { url: "https://acme.com/about", content: "Founded by Jane Doe" },
+      ]);
+      expect(scrape.status).toBe("error");
+      expect(scrape.content).toContain(
+        "contentfarm.com is not an allowed source",
+      );
+      expect(scrape.artifact.errorKind).toBe("blocked");
+
+      const critique = models.reflection.calls[0].messages.at(-1)
+        ?.content as string;
+      expect(critique).toContain("- acme.com: trust 0.3 (1 source)");
+      expect(critique).not.toContain("contentfarm.com");
+    });
+  });
+});
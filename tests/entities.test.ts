@@ -0,0 +1,92 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  discoverySchema,
+  distinctNames,
+  entitySchema,
+  mergeEntities,
+  nameProperty,
+} from "../src/enrichment_agent/entities.js";
+import { mergeInfo } from "../src/enrichment_agent/state.js";
+
+describe("Entities", () => {
+  const schema = {
+    type: "object",
+    properties: {
+      providers: {
+        type: "array",
+        description: "A chip provider.",
+        items: {
+          type: "object",
+          properties: {
+            name: { type: "string" },
+            market_share: { type: "string" },
+            technologies: { $ref: "#/$defs/technologies" },
+          },
+          required: ["name"],
+        },
+      },
+      overall_market_trends: { type: "string" },
+    },
+    $defs: { technologies: { type: "array", items: { type: "string" } } },
+  };
+
+  it("should derive the entity and discovery schemas", () => {
+    expect(entitySchema(schema, "providers")).toEqual({
+      ...schema.properties.providers.items,
+      $defs: schema.$defs,
+    });
+    expect(() => entitySchema(schema, "overall_market_trends")).toThrow(
+      "must be a top-level array of objects",
+    );
+
+    const discovery = discoverySchema(schema, "providers", 5);
+    expect(discovery.properties.providers).toMatchObject({
+      type: "array",
+      items: { type: "string" },
+      maxItems: 5,
+    });
+    expect(discovery.properties.providers.description).toContain(
+      "A chip provider.",
+    );
+    expect(discovery.properties.overall_market_trends).toEqual({
+      type: "string",
+    });
+  });
+
+  it("should find the name property of an entity", () => {
+    expect(nameProperty(entitySchema(schema, "providers"))).toBe("name");
+    expect(
+      nameProperty({
+        properties: { hq: { type: "string" }, company: { type: "string" } },
+        required: ["company"],
+      }),
+    ).toBe("company");
+    expect(nameProperty({ properties: { size: { type: "number" } } })).toBe(
+      undefined,
+    );
+  });
+
+  it("should de-duplicate entity names", () => {
+    expect(
+      distinctNames(["NVIDIA", " nvidia ", "AMD", "", 42, "Intel"], 2),
+    ).toEqual(["NVIDIA", "AMD"]);
+  });
+
+  it("should merge entities with the same name", () => {
+    const merged = mergeEntities(
+      [
+        { name: "NVIDIA", market_share: "80%" },
+        { name: "AMD" },
+        { name: "Nvidia", technologies: ["CUDA"] },
+        { market_share: "unknown" },
+      ],
+      entitySchema(schema, "providers"),
+      mergeInfo,
+    );
+    expect(merged).toEqual([
+      { name: "Nvidia", market_share: "80%", technologies: ["CUDA"] },
+      { name: "AMD" },
+      { market_share: "unknown" },
+    ]);
+  });
+});
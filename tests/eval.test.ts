@@ -0,0 +1,205 @@
+import { describe, it, expect } from "@jest/globals";
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { BatchGraph } from "../src/enrichment_agent/batch.js";
+import {
+  compareConfigs,
+  comparisonToMarkdown,
+  evaluate,
+  loadDataset,
+  scoreExample,
+} from "../src/enrichment_agent/eval.js";
+
+describe("Evaluation", () => {
+  const extractionSchema = {
+    type: "object",
+    properties: {
+      founder: { type: "string" },
+      employees: { type: "integer" },
+      products: { type: "array", items: { type: "string" } },
+      headquarters: { type: "object" },
+    },
+  };
+
+  it("should compare each field by its type", () => {
+    const result = scoreExample(
+      {
+        topic: "LangChain",
+        extractionSchema,
+        expected: {
+          founder: "Harrison Chase",
+          employees: 100,
+          products: ["LangChain", "LangGraph", "LangSmith"],
+          headquarters: { city: "San Francisco" },
+        },
+      },
+      {
+        founder: "harrison  chase.",
+        employees: 101,
+        products: ["langgraph", "LangChain", "Chat LangChain"],
+        headquarters: { city: "SF" },
+      },
+    );
+    expect(result.fields.founder).toMatchObject({
+      comparison: "normalized",
+      truePositives: 1,
+    });
+    expect(result.fields.employees).toMatchObject({
+      comparison: "numeric",
+      truePositives: 1,
+    });
+    expect(result.fields.products).toMatchObject({
+      comparison: "set",
+      truePositives: 2,
+      falsePositives: 1,
+      falseNegatives: 1,
+    });
+    expect(result.fields.headquarters).toMatchObject({
+      comparison: "exact",
+      truePositives: 0,
+      falsePositives: 1,
+      falseNegatives: 1,
+    });
+  });
+
+  it("should apply the numeric tolerance and comparison overrides", () => {
+    const example = {
+      topic: "LangChain",
+      extractionSchema,
+      expected: { employees: 100, founder: "Harrison Chase" },
+    };
+    const info = { employees: "1,000", founder: "harrison chase" };
+    expect(scoreExample(example, info).fields.employees.truePositives).toBe(0);
+    expect(
+      scoreExample(example, { employees: 95 }, { numericTolerance: 0.1 }).fields
+        .employees.truePositives,
+    ).toBe(1);
+    expect(
+      scoreExample(example, info, { comparisons: { founder: "exact" } }).fields
+        .founder,
+    ).toMatchObject({ truePositives: 0, falsePositives: 1, falseNegatives: 1 });
+  });
+
+  it("should report precision and recall per field", async () => {
+    const fakeGraph: BatchGraph = {
+      invoke: async (input) => {
+        if (input.topic === "Broken") {
+          throw new Error("Rate limited");
+        }
+        return {
+          info: { founder: "Harrison Chase", products: ["LangChain"] },
+          loopStep: 2,
+          tokenUsage: {
+            inputTokens: 100,
+            outputTokens: 20,
+            totalTokens: 120,
+            costUsd: 0.01,
+          },
+          terminationReason: "satisfied",
+        };
+      },
+    };
+
+    const report = await evaluate({
+      dataset: [
+        {
+          topic: "LangChain",
+          extractionSchema,
+          expected: {
+            founder: "Harrison Chase",
+            products: ["LangChain", "LangGraph"],
+          },
+        },
+        {
+          topic: "Broken",
+          extractionSchema,
+          expected: { founder: "Nobody" },
+        },
+      ],
+      graph: fakeGraph,
+    });
+
+    expect(report.fields.founder).toMatchObject({
+      truePositives: 1,
+      falsePositives: 0,
+      falseNegatives: 1,
+      precision: 1,
+      recall: 0.5,
+    });
+    expect(report.fields.products).toMatchObject({ precision: 1, recall: 0.5 });
+    expect(report.overall).toMatchObject({
+      truePositives: 2,
+      falseNegatives: 2,
+      recall: 0.5,
+    });
+    // The failed row is counted as an error, not as a row without loops.
+    expect(report.meanLoops).toBe(2);
+    expect(report.tokenUsage.totalTokens).toBe(120);
+    expect(report.errors).toBe(1);
+    expect(report.examples[1]).toMatchObject({
+      topic: "Broken",
+      error: "Rate limited",
+    });
+  });
+
+  it("should compare configurations side by side", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "eval-"));
+    const datasetPath = join(dir, "gold.jsonl");
+    writeFileSync(
+      datasetPath,
+      `${JSON.stringify({
+        topic: "LangChain",
+        extractionSchema,
+        expected: { founder: "Harrison Chase" },
+      })}\n`,
+    );
+    const configured: string[] = [];
+    const fakeGraph: BatchGraph = {
+      invoke: async (_input, config) => {
+        const model = config?.configurable?.model;
+        configured.push(model);
+        return {
+          info: { founder: model === "good" ? "Harrison Chase" : "Someone" },
+          loopStep: model === "good" ? 1 : 3,
+        };
+      },
+    };
+
+    const reports = await compareConfigs(
+      { dataset: datasetPath, graph: fakeGraph },
+      {
+        baseline: { configurable: { model: "bad" } },
+        candidate: { configurable: { model: "good" } },
+      },
+    );
+
+    expect(configured).toEqual(["bad", "good"]);
+    expect(reports.baseline.fields.founder.precision).toBe(0);
+    expect(reports.candidate.fields.founder.precision).toBe(1);
+    const markdown = comparisonToMarkdown(reports);
+    expect(markdown).toContain(
+      "| Field | baseline precision | baseline recall | candidate precision | candidate recall |",
+    );
+    expect(markdown).toContain("| founder | 0.0% | 0.0% | 100.0% | 100.0% |");
+    expect(markdown).toContain("| Mean loops | 3.0 | 1.0 |");
+  });
+
+  it("should refuse review mode", async () => {
+    await expect(
+      evaluate({
+        dataset: [],
+        config: { configurable: { reviewMode: true } },
+      }),
+    ).rejects.toThrow("Evaluations do not support reviewMode.");
+  });
+
+  it("should reject incomplete dataset rows", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "eval-"));
+    const datasetPath = join(dir, "gold.jsonl");
+    writeFileSync(datasetPath, `${JSON.stringify({ topic: "LangChain" })}\n`);
+    await expect(loadDataset(datasetPath)).rejects.toThrow(
+      `Line 1 of ${datasetPath} must have`,
+    );
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeAll, afterAll, jest } from "@jest/globals";
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import { ensureConfiguration } from "../src/enrichment_agent/configuration.js";
+import { fetchPage, parseRobotsTxt } from "../src/enrichment_agent/fetcher.js";
+
+describe("fetchPage", () => {
+  let server: Server;
+  let baseUrl: string;
+  const userAgents: string[] = [];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      userAgents.push(req.headers["user-agent"] ?? "");
+      switch (req.url) {
+        case "/robots.txt":
+          res.end("User-agent: *\nDisallow: /private\n");
+          break;
+        case "/page":
+          res.setHeader("Content-Type", "text/html");
+          res.end("<p>Hello</p>");
+          break;
+        case "/loop":
+          res.writeHead(302, { Location: "/loop" });
+          res.end();
+          break;
+        case "/large":
+          res.end("x".repeat(2_000));
+          break;
+        case "/slow":
+          setTimeout(() => res.end("late"), 500);
+          break;
+        default:
+          res.writeHead(404);
+          res.end();
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  const configuration = ensureConfiguration({
+    configurable: {
+      userAgent: "TestBot/1.0",
+      minRequestIntervalMs: 0,
+      fetchTimeoutMs: 200,
+      maxResponseBytes: 1_000,
+      maxRedirects: 2,
+    },
+  });
+
+  it("should fetch allowed pages with the configured User-Agent", async () => {
+    const page = await fetchPage(`${baseUrl}/page`, configuration);
+    expect(page.body).toBe("<p>Hello</p>");
+    expect(page.contentType).toBe("text/html");
+    expect(userAgents).toContain("TestBot/1.0");
+  });
+
+  it.each([
+    ["/private/page", "robots"],
+    ["/loop", "too_many_redirects"],
+    ["/large", "too_large"],
+    ["/slow", "timeout"],
+    ["/missing", "http_status"],
+  ])("should refuse %s", async (path, reason) => {
+    await expect(
+      fetchPage(`${baseUrl}${path}`, configuration),
+    ).rejects.toMatchObject({
+      name: "FetchRefusedError",
+      reason,
+    });
+  });
+});
+
+describe("fetchPage under load and failures", () => {
+  let server: Server;
+  let baseUrl: string;
+  let robotsStatus = 503;
+  let robotsRequests = 0;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      switch (req.url) {
+        case "/robots.txt":
+          robotsRequests += 1;
+          res.writeHead(robotsStatus);
+          res.end("User-agent: *\nAllow: /\n");
+          break;
+        case "/slow":
+          setTimeout(() => res.end("late"), 500);
+          break;
+        default:
+          res.end("ok");
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  it("should give up waiting for a busy host when the request times out", async () => {
+    const configurable = {
+      respectRobotsTxt: false,
+      minRequestIntervalMs: 0,
+      maxConcurrentRequestsPerDomain: 1,
+    };
+    const slow = fetchPage(
+      `${baseUrl}/slow`,
+      ensureConfiguration({ configurable }),
+    );
+    const started = Date.now();
+    await expect(
+      fetchPage(
+        `${baseUrl}/page`,
+        ensureConfiguration({
+          configurable: { ...configurable, fetchTimeoutMs: 100 },
+        }),
+      ),
+    ).rejects.toMatchObject({ reason: "timeout" });
+    expect(Date.now() - started).toBeLessThan(400);
+    expect((await slow).body).toBe("late");
+  });
+
+  it("should refuse to fetch while robots.txt fails, and retry it later", async () => {
+    const configuration = ensureConfiguration({
+      configurable: { minRequestIntervalMs: 0 },
+    });
+    await expect(
+      fetchPage(`${baseUrl}/page`, configuration),
+    ).rejects.toMatchObject({ name: "FetchRefusedError", reason: "robots" });
+    robotsStatus = 200;
+    // The failure is cached for a short while.
+    await expect(
+      fetchPage(`${baseUrl}/page`, configuration),
+    ).rejects.toMatchObject({ reason: "robots" });
+    expect(robotsRequests).toBe(1);
+
+    // Run last: moving the clock also delays later requests to the same host.
+    const now = Date.now();
+    const clock = jest.spyOn(Date, "now").mockReturnValue(now + 61_000);
+    try {
+      const page = await fetchPage(`${baseUrl}/page`, configuration);
+      expect(page.body).toBe("ok");
+      expect(robotsRequests).toBe(2);
+    } finally {
+      clock.mockRestore();
+    }
+  });
+});
+
+describe("parseRobotsTxt", () => {
+  const robots = `
+User-agent: TestBot
+Allow: /docs/public
+Disallow: /docs
+Crawl-delay: 2
+
+User-agent: *
+Disallow: /
+`;
+
+  it("should apply the most specific group and rule", () => {
+    const rules = parseRobotsTxt(robots, "TestBot/1.0");
+    expect(rules.isAllowed("/about")).toBe(true);
+    expect(rules.isAllowed("/docs/intro")).toBe(false);
+    expect(rules.isAllowed("/docs/public/intro")).toBe(true);
+    expect(rules.crawlDelayMs).toBe(2_000);
+    expect(parseRobotsTxt(robots, "OtherBot").isAllowed("/about")).toBe(false);
+  });
+
+  it("should match the product token exactly and merge its groups", () => {
+    const rules = parseRobotsTxt(
+      `${robots}
+user-agent: testbot
+Disallow: /about
+Crawl-delay: 1
+`,
+      "testBot/2.0",
+    );
+    expect(rules.isAllowed("/about")).toBe(false);
+    expect(rules.isAllowed("/docs/public/intro")).toBe(true);
+    expect(rules.isAllowed("/blog")).toBe(true);
+    expect(rules.crawlDelayMs).toBe(2_000);
+    // TestBotPro is another crawler, so the "*" group applies.
+    expect(parseRobotsTxt(robots, "TestBotPro").isAllowed("/about")).toBe(
+      false,
+    );
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * An offline harness for running the graph end to end.
+ *
+ * Chat models are replaced with scripted fakes that return pre-defined
+ * responses, search results are served from a fixture file and pages from a
+ * local HTTP server. No API keys or network access are needed.
+ */
+import { mkdtempSync, writeFileSync } from "fs";
+import { createServer } from "http";
+import { AddressInfo } from "net";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  BaseChatModel,
+  BindToolsInput,
+} from "@langchain/core/language_models/chat_models";
+import { AIMessage, BaseMessage } from "@langchain/core/messages";
+import { ChatResult } from "@langchain/core/outputs";
+import { SearchResult } from "../src/enrichment_agent/search.js";
+import { registerChatModel } from "../src/enrichment_agent/utils.js";
+
+/**
+ * A scripted response. Functions receive the prompt, so a response can depend on it.
+ */
+export type ScriptedResponse =
+  | AIMessage
+  | ((messages: BaseMessage[]) => AIMessage);
+
+/**
+ * A call made to a scripted model.
+ */
+export interface ScriptedCall {
+  messages: BaseMessage[];
+  /**
+   * The names of the tools bound to the model.
+   */
+  tools: string[];
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  toolChoice?: any;
+}
+
+/**
+ * A chat model that returns its scripted responses in order.
+ * Throws if it is called more often than scripted.
+ */
+export class ScriptedChatModel extends BaseChatModel {
+  readonly calls: ScriptedCall[] = [];
+
+  private tools: string[] = [];
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private toolChoice?: any;
+
+  constructor(
+    readonly modelName: string,
+    private readonly responses: ScriptedResponse[],
+  ) {
+    super({});
+  }
+
+  _llmType(): string {
+    return "scripted";
+  }
+
+  /**
+   * The number of scripted responses that were not used.
+   */
+  get remaining(): number {
+    return this.responses.length;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  bindTools(tools: BindToolsInput[], kwargs?: Record<string, any>) {
+    this.tools = tools.map(toolName);
+    this.toolChoice = kwargs?.tool_choice;
+    return this;
+  }
+
+  async _generate(messages: BaseMessage[]): Promise<ChatResult> {
+    this.calls.push({
+      messages,
+      tools: this.tools,
+      toolChoice: this.toolChoice,
+    });
+    this.tools = [];
+    this.toolChoice = undefined;
+    const next = this.responses.shift();
+    if (!next) {
+      throw new Error(`${this.modelName} was called more often than scripted.`);
+    }
+    const message = typeof next === "function" ? next(messages) : next;
+    return {
+      generations: [{ text: textOf(message), message }],
+    };
+  }
+}
+
+function toolName(tool: BindToolsInput): string {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { name, function: fn } = tool as any;
+  return name ?? fn?.name;
+}
+
+function textOf(message: AIMessage): string {
+  return typeof message.content === "string" ? message.content : "";
+}
+
+let callCount = 0;
+
+/**
+ * A response calling a single tool.
+ */
+export function toolCall(
+  name: string,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  args: Record<string, any>,
+  usage?: { input: number; output: number },
+): AIMessage {
+  callCount += 1;
+  return new AIMessage({
+    content: "",
+    tool_calls: [{ id: `call_${callCount}`, name, args }],
+    usage_metadata: usage && {
+      input_tokens: usage.input,
+      output_tokens: usage.output,
+      total_tokens: usage.input + usage.output,
+    },
+  });
+}
+
+/**
+ * A reflection verdict, as returned by a model asked for structured output.
+ */
+export function verdict(args: {
+  is_satisfactory: boolean;
+  reason?: string[];
+  improvement_instructions?: string;
+  field_feedback?: Array<{
+    field: string;
+    status: "accepted" | "needs_work";
+    confidence: number;
+    justification: string;
+    supported_by_evidence: boolean;
+    instructions?: string;
+  }>;
+}): AIMessage {
+  // withStructuredOutput binds the schema as a tool named "extract".
+  return toolCall("extract", { reason: ["Looks right."], ...args });
+}
+
+/**
+ * The names the scripted models are registered under.
+ */
+export const FAKE_MODELS = {
+  agentModel: "fake/agent",
+  reflectionModel: "fake/reflection",
+  scrapeModel: "fake/scrape",
+};
+
+/**
+ * Register scripted models for the agent, reflection and scraping steps.
+ *
+ * @returns The models, so tests can inspect their calls.
+ */
+export function scriptModels(scripts: {
+  agent?: ScriptedResponse[];
+  reflection?: ScriptedResponse[];
+  scrape?: ScriptedResponse[];
+}): Record<"agent" | "reflection" | "scrape", ScriptedChatModel> {
+  const models = {
+    agent: new ScriptedChatModel(FAKE_MODELS.agentModel, scripts.agent ?? []),
+    reflection: new ScriptedChatModel(
+      FAKE_MODELS.reflectionModel,
+      scripts.reflection ?? [],
+    ),
+    scrape: new ScriptedChatModel(
+      FAKE_MODELS.scrapeModel,
+      scripts.scrape ?? [],
+    ),
+  };
+  registerChatModel(FAKE_MODELS.agentModel, () => models.agent);
+  registerChatModel(FAKE_MODELS.reflectionModel, () => models.reflection);
+  registerChatModel(FAKE_MODELS.scrapeModel, () => models.scrape);
+  return models;
+}
+
+/**
+ * A local HTTP server serving fixture pages. Any other path responds with 404.
+ */
+export interface PageServer {
+  baseUrl: string;
+  close(): void;
+}
+
+/**
+ * Serve the given HTML pages, keyed by path.
+ */
+export async function servePages(
+  pages: Record<string, string>,
+): Promise<PageServer> {
+  const server = createServer((req, res) => {
+    const page = pages[req.url ?? ""];
+    if (page === undefined) {
+      res.writeHead(404);
+      res.end();
+      return;
+    }
+    res.setHeader("Content-Type", "text/html");
+    res.end(page);
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  return {
+    baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    close() {
+      server.closeAllConnections();
+      server.close();
+    },
+  };
+}
+
+/**
+ * Write search fixtures to a temporary file.
+ *
+ * @param results - Results keyed by query. "*" matches any query.
+ * @returns The path of the fixture file.
+ */
+export function writeSearchFixture(
+  results: Record<string, SearchResult[]>,
+): string {
+  const path = join(mkdtempSync(join(tmpdir(), "search-")), "search.json");
+  writeFileSync(path, JSON.stringify(results));
+  return path;
+}
+
+/**
+ * A run config using the scripted models and fixture search.
+ */
+export function harnessConfig(
+  searchFixturePath: string,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  configurable: Record<string, any> = {},
+) {
+  return {
+    configurable: {
+      ...FAKE_MODELS,
+      searchProvider: "fixture",
+      searchFixturePath,
+      minRequestIntervalMs: 0,
+      retryInitialDelayMs: 0,
+      ...configurable,
+    },
+  };
+}
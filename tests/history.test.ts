@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeAll, afterAll } from "@jest/globals";
+import { AIMessage, HumanMessage, ToolMessage } from "@langchain/core/messages";
+import { graph } from "../src/enrichment_agent/graph.js";
+import {
+  compactionCut,
+  formatExchanges,
+} from "../src/enrichment_agent/history.js";
+import {
+  harnessConfig,
+  PageServer,
+  scriptModels,
+  servePages,
+  toolCall,
+  verdict,
+  writeSearchFixture,
+} from "./harness.js";
+
+function exchange(name: string, args: Record<string, string>, result: string) {
+  const call = toolCall(name, args);
+  return [
+    call,
+    new ToolMessage({
+      tool_call_id: call.tool_calls?.[0].id ?? "",
+      name,
+      content: result,
+    }),
+  ];
+}
+
+describe("Message history", () => {
+  const messages = [
+    ...exchange("Search", { query: "LangChain founder" }, "[]"),
+    new AIMessage("I should call a tool."),
+    new HumanMessage("Please respond by calling one of the provided tools."),
+    ...exchange("scrapeWebsite", { url: "https://langchain.com" }, "Notes"),
+  ];
+
+  it("should only cut the history at the start of a tool exchange", () => {
+    expect(compactionCut(messages, 0, 1)).toBe(4);
+    expect(compactionCut(messages, 0, 2)).toBe(2);
+    expect(compactionCut(messages, 0, 3)).toBeUndefined();
+    expect(compactionCut(messages, 2, 2)).toBeUndefined();
+    expect(compactionCut(messages, 0, 0)).toBe(messages.length);
+  });
+
+  it("should render each tool call with its result", () => {
+    expect(
+      formatExchanges([new HumanMessage("Research LangChain."), ...messages]),
+    ).toBe(
+      [
+        "<Search>",
+        'Arguments: {"query":"LangChain founder"}',
+        "[]",
+        "</Search>",
+        "",
+        "<Feedback>",
+        "Please respond by calling one of the provided tools.",
+        "</Feedback>",
+        "",
+        "<scrapeWebsite>",
+        'Arguments: {"url":"https://langchain.com"}',
+        "Notes",
+        "</scrapeWebsite>",
+      ].join("\n"),
+    );
+  });
+
+  describe("with the compact strategy", () => {
+    let pages: PageServer;
+
+    beforeAll(async () => {
+      pages = await servePages({
+        "/about": "<p>Founded by Harrison Chase.</p>",
+      });
+    });
+
+    afterAll(() => {
+      pages.close();
+    });
+
+    it("should send older results as research notes", async () => {
+      const models = scriptModels({
+        agent: [
+          toolCall("Search", { query: "LangChain founder" }),
+          toolCall("scrapeWebsite", { url: `${pages.baseUrl}/about` }),
+          toolCall("Info", { founder: "Harrison Chase" }),
+        ],
+        scrape: [
+          new AIMessage("Founded by Harrison Chase."),
+          new AIMessage({
+            content: "The search found the about page.",
+            usage_metadata: {
+              input_tokens: 50,
+              output_tokens: 10,
+              total_tokens: 60,
+            },
+          }),
+        ],
+        reflection: [verdict({ is_satisfactory: true })],
+      });
+      const searchFixturePath = writeSearchFixture({
+        "*": [{ url: `${pages.baseUrl}/about`, content: "LangChain" }],
+      });
+
+      const state = await graph.invoke(
+        {
+          topic: "LangChain",
+          extractionSchema: {
+            type: "object",
+            properties: { founder: { type: "string" } },
+          },
+        },
+        harnessConfig(searchFixturePath, {
+          historyStrategy: "compact",
+          keepToolExchanges: 1,
+        }),
+      );
+
+      expect(state.info).toEqual({ founder: "Harrison Chase" });
+      expect(state.researchNotes).toBe("The search found the about page.");
+      expect(state.compactedMessages).toBe(2);
+      expect(state.tokenUsage.totalTokens).toBe(60);
+      // The original messages are kept for the audit trail.
+      expect(state.messages).toHaveLength(6);
+
+      const compaction = models.scrape.calls[1].messages[0].content;
+      expect(compaction).toContain('Arguments: {"query":"LangChain founder"}');
+      expect(compaction).not.toContain("scrapeWebsite");
+
+      const [, , lastLoop] = models.agent.calls;
+      expect(lastLoop.messages).toHaveLength(3);
+      expect(lastLoop.messages[0].content).toContain(
+        "<notes>\nThe search found the about page.\n</notes>",
+      );
+      expect((lastLoop.messages[1] as AIMessage).tool_calls?.[0].name).toBe(
+        "scrapeWebsite",
+      );
+      expect(models.reflection.calls[0].messages[0].content).toContain(
+        "The search found the about page.",
+      );
+      expect(models.reflection.calls[0].messages).toHaveLength(4);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeAll, afterAll } from "@jest/globals";
+import { AIMessage } from "@langchain/core/messages";
+import { graph } from "../src/enrichment_agent/graph.js";
+import {
+  collectTimeline,
+  summarizeProgress,
+  TimelineEntry,
+} from "../src/enrichment_agent/progress.js";
+import {
+  harnessConfig,
+  PageServer,
+  scriptModels,
+  servePages,
+  toolCall,
+  verdict,
+  writeSearchFixture,
+} from "./harness.js";
+
+describe("Progress events", () => {
+  let pages: PageServer;
+
+  beforeAll(async () => {
+    pages = await servePages({ "/about": "<p>Founded by Harrison Chase.</p>" });
+  });
+
+  afterAll(() => {
+    pages.close();
+  });
+
+  it("should stream a timeline of the research", async () => {
+    scriptModels({
+      agent: [
+        toolCall("Search", { query: "LangChain founder" }),
+        toolCall("scrapeWebsite", { url: `${pages.baseUrl}/about` }),
+        toolCall("scrapeWebsite", { url: `${pages.baseUrl}/missing` }),
+        toolCall("Info", { founder: "Harrison Chase" }),
+      ],
+      scrape: [new AIMessage("Founded by Harrison Chase.")],
+      reflection: [verdict({ is_satisfactory: true })],
+    });
+    const searchFixturePath = writeSearchFixture({
+      "*": [{ url: `${pages.baseUrl}/about`, content: "LangChain" }],
+    });
+    const extractionSchema = {
+      type: "object",
+      properties: { founder: { type: "string" } },
+    };
+
+    const received: TimelineEntry[] = [];
+    const timeline = await collectTimeline(
+      graph.streamEvents(
+        { topic: "LangChain", extractionSchema },
+        { version: "v2", ...harnessConfig(searchFixturePath) },
+      ),
+      (entry) => received.push(entry),
+    );
+
+    expect(received).toEqual(timeline);
+    expect(timeline.map((entry) => entry.summary)).toEqual([
+      "Research loop 1 of 6",
+      'Searched "LangChain founder": 1 results',
+      "Research loop 2 of 6",
+      `Scraped ${pages.baseUrl}/about: HTTP 200, 33 bytes`,
+      "Research loop 3 of 6",
+      `Could not scrape ${pages.baseUrl}/missing: http_status`,
+      "Research loop 4 of 6",
+      "Submitted info with 1 fields: founder",
+      "Reflection accepted the info",
+    ]);
+    expect(timeline[3].event).toMatchObject({
+      type: "scrape",
+      status: "ok",
+      httpStatus: 200,
+      cacheHit: false,
+    });
+    expect(timeline[0].elapsedMs).toBe(0);
+  });
+
+  it("should summarize open fields and schema violations", () => {
+    expect(
+      summarizeProgress({
+        type: "reflection",
+        satisfactory: false,
+        acceptedFields: ["founder"],
+        openFields: ["products", "employees"],
+      }),
+    ).toBe("Reflection asked for more research on products, employees");
+    expect(
+      summarizeProgress({ type: "info", fields: ["founder"], violations: 2 }),
+    ).toBe("Submitted info with 2 schema violations");
+  });
+});
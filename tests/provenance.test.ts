@@ -0,0 +1,92 @@
+import { describe, it, expect } from "@jest/globals";
+import { AIMessage, ToolMessage } from "@langchain/core/messages";
+import {
+  attributeProvenance,
+  collectEvidence,
+} from "../src/enrichment_agent/provenance.js";
+
+describe("Provenance", () => {
+  const messages = [
+    new AIMessage({
+      content: "",
+      tool_calls: [
+        { id: "search_1", name: "Search", args: {} },
+        {
+          id: "scrape_1",
+          name: "scrapeWebsite",
+          args: { url: "https://example.com/about" },
+        },
+      ],
+    }),
+    new ToolMessage({
+      tool_call_id: "search_1",
+      name: "Search",
+      content: JSON.stringify([
+        {
+          title: "LangChain",
+          url: "https://example.com/news",
+          content: "LangChain was founded by Harrison Chase in 2022.",
+        },
+      ]),
+    }),
+    new ToolMessage({
+      tool_call_id: "scrape_1",
+      name: "scrapeWebsite",
+      content: "Notes:\nThe company sells LangSmith. It also sells LangGraph.",
+    }),
+  ];
+
+  it("should collect search results and scraped notes", () => {
+    const evidence = collectEvidence(messages);
+    expect(evidence.map((e) => [e.url, e.source])).toEqual([
+      ["https://example.com/news", "search"],
+      ["https://example.com/about", "scrape"],
+    ]);
+  });
+
+  it("should pair each leaf with supporting snippets", () => {
+    const provenance = attributeProvenance(
+      { founder: "Harrison Chase", products: ["LangSmith", "Unknown"] },
+      collectEvidence(messages),
+    );
+    expect(provenance.founder).toEqual([
+      {
+        url: "https://example.com/news",
+        snippet: "LangChain was founded by Harrison Chase in 2022.",
+        source: "search",
+      },
+    ]);
+    expect(provenance.products[0][0].url).toBe("https://example.com/about");
+    expect(provenance.products[0][0].snippet).toBe(
+      "The company sells LangSmith.",
+    );
+    expect(provenance.products[1]).toEqual([]);
+  });
+
+  it("should only match short values as whole words and numbers", () => {
+    const evidence = [
+      {
+        url: "https://example.com/history",
+        text: "Acme was founded in 1950. It raised $50M, then 50.5 million.",
+        source: "search" as const,
+      },
+      {
+        url: "https://example.com/team",
+        text: "The CEO said so. Acme has 50 employees.",
+        source: "scrape" as const,
+      },
+    ];
+    const provenance = attributeProvenance(
+      { employees: 50, focus: "AI" },
+      evidence,
+    );
+    expect(provenance.employees).toEqual([
+      {
+        url: "https://example.com/team",
+        snippet: "Acme has 50 employees.",
+        source: "scrape",
+      },
+    ]);
+    expect(provenance.focus).toEqual([]);
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeAll, afterAll } from "@jest/globals";
+import { AIMessage, BaseMessage } from "@langchain/core/messages";
+import { graph } from "../src/enrichment_agent/graph.js";
+import {
+  buildReport,
+  reportToMarkdown,
+} from "../src/enrichment_agent/report.js";
+import {
+  harnessConfig,
+  PageServer,
+  scriptModels,
+  servePages,
+  toolCall,
+  verdict,
+  writeSearchFixture,
+} from "./harness.js";
+
+describe("Run reports", () => {
+  let pages: PageServer;
+
+  beforeAll(async () => {
+    pages = await servePages({ "/about": "<p>Founded by Harrison Chase.</p>" });
+  });
+
+  afterAll(() => {
+    pages.close();
+  });
+
+  it("should report every step of the run", async () => {
+    scriptModels({
+      agent: [
+        toolCall(
+          "Search",
+          { query: "LangChain founder" },
+          { input: 100, output: 20 },
+        ),
+        toolCall("scrapeWebsite", { url: `${pages.baseUrl}/about` }),
+        toolCall("scrapeWebsite", { url: `${pages.baseUrl}/missing` }),
+        toolCall("Info", { founder: 42 }),
+        toolCall("Info", { founder: "Harrison" }),
+        toolCall("Info", { founder: "Harrison Chase" }),
+      ],
+      scrape: [new AIMessage("Founded by Harrison Chase.")],
+      reflection: [
+        verdict({
+          is_satisfactory: false,
+          reason: ["Only the first name was found."],
+          improvement_instructions: "Find the full name.",
+        }),
+        verdict({ is_satisfactory: true, reason: ["Confirmed by the site."] }),
+      ],
+    });
+    const searchFixturePath = writeSearchFixture({
+      "*": [{ url: `${pages.baseUrl}/about`, content: "LangChain" }],
+    });
+    const extractionSchema = {
+      type: "object",
+      properties: { founder: { type: "string" } },
+    };
+
+    const state = await graph.invoke(
+      { topic: "LangChain", extractionSchema },
+      harnessConfig(searchFixturePath),
+    );
+    const report = buildReport(state);
+
+    expect(report).toMatchObject({
+      topic: "LangChain",
+      extractionSchema,
+      info: { founder: "Harrison Chase" },
+      terminationReason: "satisfied",
+      loopStep: 6,
+      searches: [
+        { query: "LangChain founder", urls: [`${pages.baseUrl}/about`] },
+      ],
+      scrapes: [
+        {
+          url: `${pages.baseUrl}/about`,
+          notes: "Founded by Harrison Chase.",
+        },
+        { url: `${pages.baseUrl}/missing` },
+      ],
+      reflections: [
+        {
+          satisfactory: false,
+          reasons: ["Only the first name was found."],
+          improvementInstructions: "Find the full name.",
+        },
+        { satisfactory: true, reasons: ["Confirmed by the site."] },
+      ],
+    });
+    expect(report.scrapes[1].error).toContain("404");
+    expect(report.submissions.map(({ info }) => info)).toEqual([
+      { founder: 42 },
+      { founder: "Harrison" },
+      { founder: "Harrison Chase" },
+    ]);
+    expect(report.submissions[0].violations).not.toHaveLength(0);
+    expect(report.timing.durationMs).toBeGreaterThanOrEqual(0);
+    expect(report.tokenUsage.totalTokens).toBe(120);
+
+    const markdown = reportToMarkdown(report);
+    expect(markdown).toContain("# Enrichment report: LangChain");
+    expect(markdown).toContain("| Termination reason | satisfied |");
+    expect(markdown).toContain("| Tokens | 120 (100 input, 20 output) |");
+    expect(markdown).toContain(`1. "LangChain founder"`);
+    expect(markdown).toContain(`### ${pages.baseUrl}/about`);
+    expect(markdown).toContain("> Founded by Harrison Chase.");
+    expect(markdown).toContain("### Verdict 1: needs more research");
+    expect(markdown).toContain("Improvement instructions: Find the full name.");
+    expect(markdown).toContain("### Verdict 2: accepted");
+    expect(markdown).toContain("## Extraction schema");
+  });
+
+  it("should report the research of each entity in fan-out mode", async () => {
+    const research = (messages: BaseMessage[]) =>
+      String(messages[0].content).includes("AMD, as one of")
+        ? toolCall("Search", { query: "AMD market share" })
+        : toolCall("Info", { name: "NVIDIA" });
+    scriptModels({
+      agent: [
+        toolCall("Info", { providers: ["NVIDIA", "AMD"] }),
+        research,
+        research,
+        toolCall("Info", { name: "AMD" }),
+      ],
+      reflection: Array(3).fill(verdict({ is_satisfactory: true })),
+    });
+    const extractionSchema = {
+      type: "object",
+      properties: {
+        providers: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: { name: { type: "string" } },
+          },
+        },
+      },
+    };
+
+    const state = await graph.invoke(
+      { topic: "AI chip providers", extractionSchema },
+      harnessConfig(writeSearchFixture({}), { fanOutField: "providers" }),
+    );
+    const report = buildReport(state);
+
+    expect(report.loopStep).toBe(1);
+    expect(report.submissions).toHaveLength(1);
+    expect(report.entities).toEqual([
+      expect.objectContaining({
+        entity: "NVIDIA",
+        loopStep: 1,
+        searches: [],
+        submissions: [{ info: { name: "NVIDIA" }, violations: [] }],
+      }),
+      expect.objectContaining({
+        entity: "AMD",
+        terminationReason: "satisfied",
+        loopStep: 2,
+        searches: [{ query: "AMD market share", urls: [], cacheHit: false }],
+        submissions: [{ info: { name: "AMD" }, violations: [] }],
+      }),
+    ]);
+
+    const markdown = reportToMarkdown(report);
+    expect(markdown).toContain("## Entities");
+    expect(markdown).toContain("### AMD");
+    expect(markdown).toContain("- Research loops: 2");
+    expect(markdown).toContain('1. "AMD market share"');
+    expect(markdown).toContain("##### Submission 1");
+  });
+});
@@ -0,0 +1,227 @@
+import { describe, it, expect } from "@jest/globals";
+import { AIMessage } from "@langchain/core/messages";
+import { FetchRefusedError } from "../src/enrichment_agent/fetcher.js";
+import { graph } from "../src/enrichment_agent/graph.js";
+import {
+  isTransientError,
+  retryDelay,
+  withRetry,
+} from "../src/enrichment_agent/retry.js";
+import { classifyToolError } from "../src/enrichment_agent/tools.js";
+import {
+  ChatModelParams,
+  registerChatModel,
+} from "../src/enrichment_agent/utils.js";
+import {
+  harnessConfig,
+  ScriptedChatModel,
+  scriptModels,
+  toolCall,
+  verdict,
+  writeSearchFixture,
+} from "./harness.js";
+
+function apiError(status: number, message = `Status ${status}`) {
+  return Object.assign(new Error(message), { status });
+}
+
+describe("Retries", () => {
+  const configuration = {
+    maxRetries: 2,
+    retryInitialDelayMs: 0,
+    retryMaxDelayMs: 0,
+  };
+
+  it("should recognize transient errors", () => {
+    expect(isTransientError(apiError(429))).toBe(true);
+    expect(isTransientError(apiError(529))).toBe(true);
+    expect(isTransientError(apiError(503))).toBe(true);
+    expect(isTransientError(apiError(400))).toBe(false);
+    expect(isTransientError(apiError(401))).toBe(false);
+    expect(
+      isTransientError(
+        Object.assign(new Error("reset"), { code: "ECONNRESET" }),
+      ),
+    ).toBe(true);
+    expect(isTransientError(new Error("The API is overloaded."))).toBe(true);
+    expect(isTransientError(new Error("Invalid URL"))).toBe(false);
+    expect(
+      isTransientError(new FetchRefusedError("Timed out.", "timeout")),
+    ).toBe(true);
+    expect(
+      isTransientError(
+        new FetchRefusedError("Unavailable.", "http_status", 503),
+      ),
+    ).toBe(true);
+    expect(
+      isTransientError(new FetchRefusedError("Not found.", "http_status", 404)),
+    ).toBe(false);
+    expect(
+      isTransientError(new FetchRefusedError("Disallowed.", "robots")),
+    ).toBe(false);
+  });
+
+  it("should back off exponentially with jitter", () => {
+    const backoff = { retryInitialDelayMs: 1_000, retryMaxDelayMs: 5_000 };
+    expect(retryDelay(0, { ...backoff, maxRetries: 3 }, 0)).toBe(500);
+    expect(retryDelay(0, { ...backoff, maxRetries: 3 }, 0.5)).toBe(750);
+    expect(retryDelay(1, { ...backoff, maxRetries: 3 }, 0)).toBe(1_000);
+    expect(retryDelay(10, { ...backoff, maxRetries: 3 }, 1)).toBe(5_000);
+  });
+
+  it("should retry transient errors until they succeed", async () => {
+    let calls = 0;
+    const result = await withRetry(async () => {
+      calls += 1;
+      if (calls < 3) {
+        throw apiError(429);
+      }
+      return "ok";
+    }, configuration);
+    expect(result).toBe("ok");
+    expect(calls).toBe(3);
+  });
+
+  it("should give up after maxRetries", async () => {
+    let calls = 0;
+    await expect(
+      withRetry(async () => {
+        calls += 1;
+        throw apiError(529);
+      }, configuration),
+    ).rejects.toThrow("Status 529");
+    expect(calls).toBe(3);
+  });
+
+  it("should not retry other errors", async () => {
+    let calls = 0;
+    await expect(
+      withRetry(async () => {
+        calls += 1;
+        throw apiError(400);
+      }, configuration),
+    ).rejects.toThrow("Status 400");
+    expect(calls).toBe(1);
+  });
+
+  it("should classify tool errors", () => {
+    expect(classifyToolError(apiError(429))).toBe("transient");
+    expect(
+      classifyToolError(new FetchRefusedError("Timed out.", "timeout")),
+    ).toBe("transient");
+    expect(
+      classifyToolError(new FetchRefusedError("Invalid.", "unsupported_url")),
+    ).toBe("bad_input");
+    expect(
+      classifyToolError(new FetchRefusedError("Gone.", "http_status", 404)),
+    ).toBe("bad_input");
+    expect(
+      classifyToolError(
+        new FetchRefusedError("Forbidden.", "http_status", 403),
+      ),
+    ).toBe("blocked");
+    expect(classifyToolError(new FetchRefusedError("No.", "robots"))).toBe(
+      "blocked",
+    );
+    expect(classifyToolError(new FetchRefusedError("Big.", "too_large"))).toBe(
+      "blocked",
+    );
+    expect(classifyToolError(new Error('Tool "Browse" not found.'))).toBe(
+      "bad_input",
+    );
+  });
+
+  it("should fall back to the next model when a model keeps failing", async () => {
+    const overloaded = () => {
+      throw apiError(529, "Overloaded");
+    };
+    const models = scriptModels({
+      agent: [overloaded, overloaded, overloaded],
+      reflection: [verdict({ is_satisfactory: true })],
+    });
+    const fallback = new ScriptedChatModel("fake/fallback", [
+      toolCall("Info", { founder: "Harrison Chase" }, { input: 10, output: 5 }),
+    ]);
+    registerChatModel("fake/fallback", () => fallback);
+    try {
+      const state = await graph.invoke(
+        {
+          topic: "LangChain",
+          extractionSchema: {
+            type: "object",
+            properties: { founder: { type: "string" } },
+          },
+        },
+        harnessConfig(writeSearchFixture({}), {
+          fallbackModels: ["fake/fallback"],
+          modelPricing: {
+            "fake/fallback": { input: 1e6, output: 0 },
+          },
+        }),
+      );
+
+      expect(state.info).toEqual({ founder: "Harrison Chase" });
+      expect(models.agent.calls).toHaveLength(3);
+      expect(fallback.calls).toHaveLength(1);
+      // Usage is priced as the fallback model's.
+      expect(state.tokenUsage.costUsd).toBe(10);
+    } finally {
+      registerChatModel("fake/fallback", undefined);
+    }
+  });
+
+  it("should turn off the models' built-in retries", async () => {
+    const models = scriptModels({
+      agent: [toolCall("Info", { founder: "Harrison Chase" })],
+      reflection: [verdict({ is_satisfactory: true })],
+    });
+    const params: ChatModelParams[] = [];
+    registerChatModel("fake/agent", (p) => {
+      params.push(p);
+      return models.agent;
+    });
+
+    await graph.invoke(
+      {
+        topic: "LangChain",
+        extractionSchema: {
+          type: "object",
+          properties: { founder: { type: "string" } },
+        },
+      },
+      harnessConfig(writeSearchFixture({}), {
+        agentModelParams: { temperature: 0, maxRetries: 6 },
+      }),
+    );
+
+    expect(params).toEqual([{ temperature: 0, maxRetries: 0 }]);
+  });
+
+  it("should not fall back on errors that are not transient", async () => {
+    const models = scriptModels({
+      agent: [
+        () => {
+          throw apiError(400, "Bad request");
+        },
+      ],
+    });
+    const fallback = new ScriptedChatModel("fake/fallback", [
+      new AIMessage("Unused"),
+    ]);
+    registerChatModel("fake/fallback", () => fallback);
+    try {
+      await expect(
+        graph.invoke(
+          { topic: "LangChain", extractionSchema: { type: "object" } },
+          harnessConfig(writeSearchFixture({}), {
+            fallbackModels: ["fake/fallback"],
+          }),
+        ),
+      ).rejects.toThrow("Bad request");
+      expect(models.agent.calls).toHaveLength(1);
+      expect(fallback.calls).toHaveLength(0);
+    } finally {
+      registerChatModel("fake/fallback", undefined);
+    }
+  });
+});
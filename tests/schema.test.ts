@@ -0,0 +1,157 @@
+import { describe, it, expect } from "@jest/globals";
+import { z } from "zod";
+import { enrich } from "../src/enrichment_agent/enrich.js";
+import { graph } from "../src/enrichment_agent/graph.js";
+import {
+  normalizeSchema,
+  SchemaError,
+} from "../src/enrichment_agent/schema.js";
+import {
+  harnessConfig,
+  scriptModels,
+  toolCall,
+  verdict,
+  writeSearchFixture,
+} from "./harness.js";
+
+describe("Extraction schemas", () => {
+  it("should convert Zod schemas to JSON Schema", () => {
+    const product = z.object({ name: z.string() });
+    const schema = normalizeSchema(
+      z.object({
+        founder: z.string().describe("The founder"),
+        flagship: product,
+        products: z.array(product),
+      }),
+    );
+    expect(schema).toMatchObject({
+      type: "object",
+      properties: {
+        founder: { type: "string", description: "The founder" },
+        flagship: { type: "object", properties: { name: { type: "string" } } },
+        // Reused schemas are inlined rather than referenced.
+        products: {
+          type: "array",
+          items: { type: "object", properties: { name: { type: "string" } } },
+        },
+      },
+      required: ["founder", "flagship", "products"],
+    });
+    expect(schema.$schema).toBeUndefined();
+  });
+
+  it("should inline references and drop the definitions", () => {
+    const schema = normalizeSchema({
+      type: "object",
+      properties: {
+        ceo: { $ref: "#/$defs/person", description: "The CEO" },
+        founders: { type: "array", items: { $ref: "#/$defs/person" } },
+      },
+      $defs: {
+        person: { type: "object", properties: { name: { type: "string" } } },
+      },
+    });
+    expect(schema).toEqual({
+      type: "object",
+      properties: {
+        ceo: {
+          type: "object",
+          properties: { name: { type: "string" } },
+          description: "The CEO",
+        },
+        founders: {
+          type: "array",
+          items: { type: "object", properties: { name: { type: "string" } } },
+        },
+      },
+    });
+  });
+
+  it("should reject schemas it cannot use", () => {
+    const invalid = (schema: Record<string, unknown>) => () =>
+      normalizeSchema(schema);
+    expect(invalid({ properties: { founder: { type: "string" } } })).toThrow(
+      'The top-level type must be "object"',
+    );
+    expect(() => normalizeSchema(z.string())).toThrow(
+      'The top-level type must be "object"',
+    );
+    expect(
+      invalid({
+        type: "object",
+        properties: { parent: { $ref: "#/$defs/node" } },
+        $defs: {
+          node: {
+            type: "object",
+            properties: { children: { type: "array", items: { $ref: "#" } } },
+          },
+        },
+      }),
+    ).toThrow(
+      "The $ref cycle # -> #/$defs/node -> # makes the schema recursive",
+    );
+    expect(
+      invalid({ type: "object", properties: { a: { $ref: "#/$defs/a" } } }),
+    ).toThrow('The reference "#/$defs/a" cannot be resolved.');
+    expect(
+      invalid({
+        type: "object",
+        properties: { a: { $ref: "https://example.com/a.json" } },
+      }),
+    ).toThrow("Only references within the schema are supported");
+    expect(
+      invalid({
+        type: "object",
+        properties: { tier: { type: "string", if: { const: "x" } } },
+      }),
+    ).toThrow(
+      'Invalid extractionSchema at /properties/tier: The "if" keyword is not supported.',
+    );
+    expect(
+      invalid({ type: "object", properties: { count: { type: "int" } } }),
+    ).toThrow(SchemaError);
+  });
+
+  it("should fail before any research if the schema is invalid", async () => {
+    const models = scriptModels({});
+    await expect(
+      graph.invoke(
+        {
+          topic: "LangChain",
+          extractionSchema: { properties: { founder: { type: "string" } } },
+        },
+        harnessConfig(writeSearchFixture({})),
+      ),
+    ).rejects.toThrow(SchemaError);
+    expect(models.agent.calls).toHaveLength(0);
+  });
+
+  it("should type the info with a Zod schema", async () => {
+    const models = scriptModels({
+      agent: [toolCall("Info", { founder: "Harrison Chase", employees: 50 })],
+      reflection: [verdict({ is_satisfactory: true })],
+    });
+    const Company = z.object({
+      founder: z.string(),
+      employees: z.number(),
+      public: z.boolean().default(false),
+    });
+
+    const result = await enrich(
+      { topic: "LangChain", extractionSchema: Company },
+      harnessConfig(writeSearchFixture({})),
+    );
+
+    const founder: string | undefined = result.info?.founder;
+    expect(founder).toBe("Harrison Chase");
+    expect(result.info).toEqual({
+      founder: "Harrison Chase",
+      employees: 50,
+      public: false,
+    });
+    expect(result.extractionSchema.properties.employees).toEqual({
+      type: "number",
+    });
+    expect(models.agent.calls[0].tools).toContain("Info");
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from "@jest/globals";
+import { mkdtempSync, writeFileSync } from "fs";
+import { createServer } from "http";
+import { AddressInfo } from "net";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ensureConfiguration } from "../src/enrichment_agent/configuration.js";
+import { search } from "../src/enrichment_agent/search.js";
+
+describe("Search providers", () => {
+  const results = [1, 2, 3].map((i) => ({
+    title: `Result ${i}`,
+    url: `https://example.com/${i}`,
+    content: `Content ${i}`,
+  }));
+
+  it("should serve results from a fixture file", async () => {
+    const path = join(mkdtempSync(join(tmpdir(), "search-")), "search.json");
+    writeFileSync(path, JSON.stringify({ LangChain: results, "*": [] }));
+    const configuration = ensureConfiguration({
+      configurable: {
+        searchProvider: "fixture",
+        searchFixturePath: path,
+        maxSearchResults: 2,
+      },
+    });
+    expect(await search(configuration, "langchain ")).toEqual(
+      results.slice(0, 2),
+    );
+    expect(await search(configuration, "Unknown")).toEqual([]);
+
+    // The fixture file is only read once.
+    writeFileSync(path, JSON.stringify({}));
+    expect(await search(configuration, "LangChain")).toEqual(
+      results.slice(0, 2),
+    );
+  });
+
+  it("should query a JSON HTTP endpoint", async () => {
+    let body: unknown;
+    const server = createServer((req, res) => {
+      let data = "";
+      req.on("data", (chunk) => (data += chunk));
+      req.on("end", () => {
+        body = JSON.parse(data);
+        res.setHeader("Content-Type", "application/json");
+        res.end(
+          JSON.stringify({
+            results: results.map(({ url, title, content }) => ({
+              link: url,
+              title,
+              snippet: content,
+            })),
+          }),
+        );
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    try {
+      const { port } = server.address() as AddressInfo;
+      const configuration = ensureConfiguration({
+        configurable: {
+          searchProvider: "http-json",
+          searchEndpoint: `http://127.0.0.1:${port}/search`,
+          maxSearchResults: 1,
+        },
+      });
+      expect(await search(configuration, "LangChain")).toEqual([
+        { ...results[0], score: undefined },
+      ]);
+      expect(body).toEqual({ query: "LangChain", max_results: 1 });
+    } finally {
+      server.close();
+    }
+  });
+
+  it("should time out if the JSON HTTP endpoint does not respond", async () => {
+    const server = createServer(() => {});
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    try {
+      const { port } = server.address() as AddressInfo;
+      const configuration = ensureConfiguration({
+        configurable: {
+          searchProvider: "http-json",
+          searchEndpoint: `http://127.0.0.1:${port}/search`,
+          fetchTimeoutMs: 50,
+        },
+      });
+      await expect(search(configuration, "LangChain")).rejects.toMatchObject({
+        name: "SearchError",
+        status: 408,
+        message: expect.stringContaining("timed out after 50ms"),
+      });
+    } finally {
+      server.closeAllConnections();
+      server.close();
+    }
+  });
+
+  it("should require an endpoint for the http-json provider", async () => {
+    const configuration = ensureConfiguration({
+      configurable: { searchProvider: "http-json" },
+    });
+    await expect(search(configuration, "LangChain")).rejects.toThrow(
+      "searchEndpoint",
+    );
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  currentSeedInfo,
+  diffInfo,
+  lockedFields,
+  seedFieldStatus,
+} from "../src/enrichment_agent/seed.js";
+
+describe("Seed records", () => {
+  const schema = {
+    type: "object",
+    properties: {
+      founder: { type: "string" },
+      employees: { type: "number" },
+      websiteUrl: { type: "string" },
+      products: { type: "array", items: { type: "string" } },
+    },
+  };
+  const seed = {
+    founder: "Harrison Chase",
+    employees: 50,
+    websiteUrl: "https://langchain.com",
+    products: [],
+  };
+
+  it("should only research the fields the policies leave open", () => {
+    const status = seedFieldStatus(schema, seed, {
+      employees: "overwrite",
+      websiteUrl: "verify",
+      products: "verify",
+    });
+    expect(status.founder).toEqual({ status: "accepted" });
+    expect(status.employees.status).toBe("needs_work");
+    expect(status.employees.instructions).toContain("50 is out of date");
+    expect(status.websiteUrl.instructions).toContain(
+      'Verify the existing value "https://langchain.com"',
+    );
+    expect(status.products.instructions).toBe(
+      "Missing from the existing record.",
+    );
+    expect(
+      lockedFields(seed, { employees: "overwrite", websiteUrl: "verify" }),
+    ).toEqual(new Set(["founder"]));
+  });
+
+  it("should report the fields that differ from the seed", () => {
+    expect(
+      diffInfo(seed, {
+        founder: "Harrison Chase",
+        employees: 200,
+        websiteUrl: "https://langchain.com",
+        products: ["LangGraph"],
+      }),
+    ).toEqual([
+      { field: "employees", kind: "changed", before: 50, after: 200 },
+      { field: "products", kind: "added", after: ["LangGraph"] },
+    ]);
+    expect(diffInfo(seed, seed)).toEqual([]);
+  });
+
+  it("should leave out-of-date values out until they are researched", () => {
+    const info = currentSeedInfo(seed, { employees: "overwrite" });
+    expect(info).toEqual({
+      founder: "Harrison Chase",
+      websiteUrl: "https://langchain.com",
+      products: [],
+    });
+    expect(diffInfo(seed, info)).toEqual([
+      { field: "employees", kind: "removed", before: 50 },
+    ]);
+  });
+});
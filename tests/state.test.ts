@@ -0,0 +1,32 @@
+import { describe, it, expect } from "@jest/globals";
+import { mergeInfo } from "../src/enrichment_agent/state.js";
+
+describe("mergeInfo", () => {
+  it("should keep existing values that the update leaves out", () => {
+    const current = {
+      founder: "Harrison Chase",
+      products: ["LangSmith", "LangGraph"],
+      address: { city: "San Francisco", country: "USA" },
+    };
+    const update = {
+      founder: "",
+      products: [],
+      address: { city: "SF", country: null },
+      websiteUrl: "https://langchain.com",
+    };
+    expect(mergeInfo(current, update)).toEqual({
+      founder: "Harrison Chase",
+      products: ["LangSmith", "LangGraph"],
+      address: { city: "SF", country: "USA" },
+      websiteUrl: "https://langchain.com",
+    });
+  });
+
+  it("should replace arrays and handle missing info", () => {
+    expect(mergeInfo({ products: ["a", "b"] }, { products: ["c"] })).toEqual({
+      products: ["c"],
+    });
+    expect(mergeInfo(undefined, { founder: "A" })).toEqual({ founder: "A" });
+    expect(mergeInfo({ founder: "A" }, undefined)).toEqual({ founder: "A" });
+  });
+});
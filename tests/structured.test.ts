@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeAll, afterAll } from "@jest/globals";
+import { AIMessage, ToolMessage } from "@langchain/core/messages";
+import { graph } from "../src/enrichment_agent/graph.js";
+import {
+  extractStructuredData,
+  formatCandidates,
+  matchCandidates,
+} from "../src/enrichment_agent/structured.js";
+import {
+  harnessConfig,
+  PageServer,
+  scriptModels,
+  servePages,
+  toolCall,
+  verdict,
+  writeSearchFixture,
+} from "./harness.js";
+
+const PAGE = `<html>
+<head>
+  <meta property="og:site_name" content="Acme &amp; Co">
+  <meta property="og:title" content="About us">
+  <meta name="viewport" content="width=device-width">
+  <script type="application/ld+json">
+    {
+      "@context": "https://schema.org",
+      "@graph": [
+        {
+          "@type": "Organization",
+          "name": "Acme",
+          "founder": { "@type": "Person", "name": "Jane Doe" },
+          "foundingDate": "1999",
+          "address": {
+            "@type": "PostalAddress",
+            "streetAddress": "1 Main St",
+            "addressLocality": "Springfield"
+          }
+        }
+      ]
+    }
+  </script>
+  <script type="application/ld+json">{ not json </script>
+</head>
+<body>
+  <table>
+    <tr><th>Employees</th><td>1,200</td></tr>
+    <tr><th>Public</th><td>No</td></tr>
+  </table>
+  <table>
+    <tr><th>Product</th><th>Launched</th></tr>
+    <tr><td>Anvil</td><td>2001</td></tr>
+    <tr><td>Rocket skates</td><td>2005</td></tr>
+  </table>
+</body>
+</html>`;
+
+const SCHEMA = {
+  type: "object",
+  properties: {
+    founder: { type: "string" },
+    founding_date: { type: "string" },
+    address: { type: "string" },
+    site_name: { type: "string" },
+    employees: { type: "integer" },
+    public: { type: "boolean" },
+    products: { type: "array", items: { type: "string" } },
+    revenue: { type: "number" },
+  },
+};
+
+describe("Structured data", () => {
+  it("should extract JSON-LD, OpenGraph tags and tables", () => {
+    const values = extractStructuredData(PAGE);
+    expect(values).toEqual(
+      expect.arrayContaining([
+        {
+          source: "json-ld",
+          path: "Organization.founder",
+          value: { "@type": "Person", name: "Jane Doe" },
+        },
+        { source: "json-ld", path: "Person.name", value: "Jane Doe" },
+        { source: "opengraph", path: "og:site_name", value: "Acme & Co" },
+        { source: "table", path: "Employees", value: "1,200" },
+        { source: "table", path: "Product", value: ["Anvil", "Rocket skates"] },
+      ]),
+    );
+    // Only OpenGraph properties are read from meta tags.
+    expect(values.map((value) => value.path)).not.toContain("viewport");
+  });
+
+  it("should match values to schema fields and convert them", () => {
+    const candidates = matchCandidates(extractStructuredData(PAGE), SCHEMA);
+    expect(
+      Object.fromEntries(candidates.map((c) => [c.field, c.value])),
+    ).toEqual({
+      founder: "Jane Doe",
+      founding_date: "1999",
+      address: "1 Main St, Springfield",
+      site_name: "Acme & Co",
+      employees: 1200,
+      public: false,
+      products: ["Anvil", "Rocket skates"],
+    });
+    expect(formatCandidates(candidates.slice(0, 1))).toBe(
+      '- founder: "Jane Doe" (JSON-LD Organization.founder)',
+    );
+  });
+
+  it("should drop values that do not fit the field type", () => {
+    const candidates = matchCandidates(
+      [
+        { source: "table", path: "Revenue", value: "about $5M" },
+        { source: "table", path: "Revenue:", value: "5,000,000" },
+      ],
+      SCHEMA,
+    );
+    expect(candidates).toEqual([
+      {
+        field: "revenue",
+        source: "table",
+        path: "Revenue:",
+        value: 5_000_000,
+      },
+    ]);
+  });
+
+  describe("when scraping", () => {
+    let pages: PageServer;
+
+    beforeAll(async () => {
+      pages = await servePages({ "/about": PAGE });
+    });
+
+    afterAll(() => {
+      pages.close();
+    });
+
+    it("should give the agent the candidates next to the notes", async () => {
+      scriptModels({
+        agent: [
+          toolCall("scrapeWebsite", { url: `${pages.baseUrl}/about` }),
+          toolCall("Info", { founder: "Jane Doe" }),
+        ],
+        scrape: [new AIMessage("Acme makes anvils.")],
+        reflection: [verdict({ is_satisfactory: true })],
+      });
+
+      const state = await graph.invoke(
+        {
+          topic: "Acme",
+          extractionSchema: {
+            type: "object",
+            properties: { founder: { type: "string" } },
+          },
+        },
+        harnessConfig(writeSearchFixture({})),
+      );
+
+      const scrape = state.messages.find(
+        (m: ToolMessage) =>
+          m._getType() === "tool" && m.name === "scrapeWebsite",
+      );
+      expect(scrape.content).toContain("Acme makes anvils.");
+      expect(scrape.content).toContain("high-confidence candidates");
+      expect(scrape.content).toContain(
+        '- founder: "Jane Doe" (JSON-LD Organization.founder)',
+      );
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "@jest/globals";
+import { AIMessage } from "@langchain/core/messages";
+import { ensureConfiguration } from "../src/enrichment_agent/configuration.js";
+import {
+  addUsage,
+  isBudgetExhausted,
+  splitBudget,
+  usageFromMessage,
+} from "../src/enrichment_agent/usage.js";
+
+describe("Token usage", () => {
+  const message = new AIMessage({
+    content: "",
+    usage_metadata: {
+      input_tokens: 1_000,
+      output_tokens: 200,
+      total_tokens: 1_200,
+    },
+  });
+
+  it("should price usage with the configured model pricing", () => {
+    const configuration = ensureConfiguration({
+      configurable: {
+        modelPricing: { "custom/model": { input: 1, output: 2 } },
+      },
+    });
+    expect(usageFromMessage(message, "custom/model", configuration)).toEqual({
+      inputTokens: 1_000,
+      outputTokens: 200,
+      totalTokens: 1_200,
+      costUsd: 0.0014,
+    });
+    expect(
+      usageFromMessage(message, configuration.model, configuration).costUsd,
+    ).toBeCloseTo(0.006);
+    expect(
+      usageFromMessage(new AIMessage(""), configuration.model, configuration),
+    ).toEqual(addUsage(undefined, undefined));
+  });
+
+  it("should detect exhausted budgets", () => {
+    const usage = usageFromMessage(message, "unknown/model", {
+      modelPricing: {},
+    });
+    const total = addUsage(usage, usage);
+    expect(total.totalTokens).toBe(2_400);
+    expect(isBudgetExhausted(total, ensureConfiguration({}))).toBe(false);
+    expect(
+      isBudgetExhausted(
+        total,
+        ensureConfiguration({ configurable: { tokenBudget: 2_000 } }),
+      ),
+    ).toBe(true);
+    expect(
+      isBudgetExhausted(
+        { ...total, costUsd: 0.5 },
+        ensureConfiguration({ configurable: { costBudgetUsd: 1 } }),
+      ),
+    ).toBe(false);
+  });
+
+  it("should split the remaining budget between runs", () => {
+    const usage = usageFromMessage(message, "unknown/model", {
+      modelPricing: {},
+    });
+    expect(
+      splitBudget(
+        usage,
+        ensureConfiguration({ configurable: { tokenBudget: 3_200 } }),
+        4,
+      ),
+    ).toEqual({ tokenBudget: 500, costBudgetUsd: undefined });
+    expect(
+      splitBudget(
+        usage,
+        ensureConfiguration({ configurable: { tokenBudget: 1_000 } }),
+        2,
+      ).tokenBudget,
+    ).toBe(0);
+  });
+});
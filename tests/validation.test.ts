@@ -0,0 +1,53 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  formatViolations,
+  scoreInfo,
+  validateInfo,
+} from "../src/enrichment_agent/validation.js";
+
+describe("validateInfo", () => {
+  const extractionSchema = {
+    type: "object",
+    properties: {
+      founder: { type: "string" },
+      products_sold: { type: "array", items: { type: "string" } },
+    },
+    required: ["founder", "products_sold"],
+  };
+
+  it("should accept info matching the schema", () => {
+    const violations = validateInfo(extractionSchema, {
+      founder: "Harrison Chase",
+      products_sold: ["LangSmith"],
+    });
+    expect(violations).toEqual([]);
+  });
+
+  it("should report each failing path", () => {
+    const violations = validateInfo(extractionSchema, {
+      products_sold: "LangSmith, LangGraph",
+    });
+    expect(violations.map((v) => v.path)).toEqual(["/", "/products_sold"]);
+    const message = formatViolations(violations);
+    expect(message).toContain('required property "founder"');
+    expect(message).toContain("/products_sold");
+  });
+
+  it("should score submissions by completeness", () => {
+    const complete = {
+      founder: "Harrison Chase",
+      products_sold: ["LangSmith"],
+    };
+    const partial = { founder: "Harrison Chase", products_sold: [] };
+    const invalid = { founder: "Harrison Chase", products_sold: "LangSmith" };
+    expect(scoreInfo(extractionSchema, complete, [])).toBe(1);
+    expect(scoreInfo(extractionSchema, partial, [])).toBe(0.5);
+    expect(
+      scoreInfo(
+        extractionSchema,
+        invalid,
+        validateInfo(extractionSchema, invalid),
+      ),
+    ).toBe(0.5);
+  });
+});